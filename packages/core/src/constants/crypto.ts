@@ -1 +1,7 @@
 export const CRYPTO_CONTEXT = "crypto";
+
+export const CRYPTO_COMPRESSION_DEFAULT = {
+  enabled: false,
+  threshold: 1024,
+  maxSize: 1024 * 1024,
+};
@@ -1,7 +1,7 @@
 import * as encoding from "@walletconnect/encoding";
 import { generateChildLogger, getLoggerContext } from "@walletconnect/logger";
 import { safeJsonParse, safeJsonStringify } from "@walletconnect/safe-json";
-import { ICore, ICrypto, IKeyChain } from "@walletconnect/types";
+import { CryptoTypes, ICore, ICrypto, IKeyChain } from "@walletconnect/types";
 import {
   decrypt,
   deriveSharedKey,
@@ -10,14 +10,19 @@ import {
   generateKeyPair,
   hashKey,
   ERROR,
+  COMPRESSION_DEFLATE,
+  isTypeOneEnvelope,
+  deserializeEnvelope,
+  TYPE_1,
 } from "@walletconnect/utils";
 import { Logger } from "pino";
-import { CRYPTO_CONTEXT } from "../constants";
+import { CRYPTO_COMPRESSION_DEFAULT, CRYPTO_CONTEXT } from "../constants";
 import { KeyChain } from "./keychain";
 
 export class Crypto implements ICrypto {
   public name = CRYPTO_CONTEXT;
   public keychain: ICrypto["keychain"];
+  public compression: ICrypto["compression"];
 
   private initialized = false;
 
@@ -25,6 +30,7 @@ export class Crypto implements ICrypto {
     this.core = core;
     this.logger = generateChildLogger(logger, this.name);
     this.keychain = keychain || new KeyChain(this.core, this.logger);
+    this.compression = { ...CRYPTO_COMPRESSION_DEFAULT, ...core.opts?.compression };
   }
 
   public init: ICrypto["init"] = async () => {
@@ -78,32 +84,62 @@ export class Crypto implements ICrypto {
     await this.keychain.del(topic);
   };
 
-  public encrypt: ICrypto["encrypt"] = (topic, message) => {
+  public getSupportedCompression: ICrypto["getSupportedCompression"] = () => {
+    return this.compression.enabled ? [COMPRESSION_DEFLATE] : [];
+  };
+
+  public encrypt: ICrypto["encrypt"] = (topic, message, compression) => {
     this.isInitialized();
     const symKey = this.getSymKey(topic);
-    const result = encrypt({ symKey, message });
+    const result = encrypt(compression ? { symKey, message, compression } : { symKey, message });
     return result;
   };
 
-  public decrypt: ICrypto["decrypt"] = (topic, encoded) => {
+  public decrypt: ICrypto["decrypt"] = (topic, encoded, compression) => {
     this.isInitialized();
     const symKey = this.getSymKey(topic);
-    const result = decrypt({ symKey, encoded });
+    const result = decrypt(
+      compression
+        ? { symKey, encoded, ...this.getDecompression(compression) }
+        : { symKey, encoded },
+    );
     return result;
   };
 
-  public encode: ICrypto["encode"] = (topic, payload) => {
+  public encode: ICrypto["encode"] = (topic, payload, opts) => {
     this.isInitialized();
-    const hasKeys = this.hasKeys(topic);
     const message = safeJsonStringify(payload);
-    const result = hasKeys ? this.encrypt(topic, message) : encoding.utf8ToHex(message);
+    const compression = this.getCompression(message, opts?.compression);
+    if (opts?.type === TYPE_1) {
+      const { senderPublicKey, receiverPublicKey } = opts;
+      if (!senderPublicKey || !receiverPublicKey) {
+        throw new Error(
+          ERROR.MISSING_OR_INVALID.stringify({ name: "type 1 envelope public keys" }),
+        );
+      }
+      const symKey = this.getEnvelopeSymKey(senderPublicKey, receiverPublicKey);
+      return encrypt({ type: TYPE_1, symKey, message, senderPublicKey, compression });
+    }
+    const hasKeys = this.hasKeys(topic);
+    if (!hasKeys) return encoding.utf8ToHex(message);
+    const result = this.encrypt(topic, message, compression);
     return result;
   };
 
-  public decode: ICrypto["decode"] = (topic, encoded) => {
+  public decode: ICrypto["decode"] = (topic, encoded, opts) => {
     this.isInitialized();
     const hasKeys = this.hasKeys(topic);
-    const message = hasKeys ? this.decrypt(topic, encoded) : encoding.hexToUtf8(encoded);
+    if (opts?.receiverPublicKey && isTypeOneEnvelope(encoded)) {
+      try {
+        return safeJsonParse(this.decryptEnvelope(encoded, opts));
+      } catch (e) {
+        // without a symKey for the topic this can not be a type 0 envelope
+        if (!hasKeys) throw e;
+      }
+    }
+    const message = hasKeys
+      ? this.decrypt(topic, encoded, opts?.compression)
+      : encoding.hexToUtf8(encoded);
     const payload = safeJsonParse(message);
     return payload;
   };
@@ -120,6 +156,40 @@ export class Crypto implements ICrypto {
     return privateKey;
   }
 
+  // both peers derive the same key from their own private key and the other's public key
+  private getEnvelopeSymKey(selfPublicKey: string, peerPublicKey: string) {
+    const privateKey = this.getPrivateKey(selfPublicKey);
+    return deriveSymmetricKey(deriveSharedKey(privateKey, peerPublicKey));
+  }
+
+  private decryptEnvelope(encoded: string, opts: CryptoTypes.DecodeOptions) {
+    const { receiverPublicKey, compression } = opts;
+    const { senderPublicKey } = deserializeEnvelope(encoded);
+    const sender = senderPublicKey && encoding.arrayToHex(senderPublicKey);
+    // a known peer can not be impersonated by sealing with another key pair
+    if (
+      !receiverPublicKey ||
+      !sender ||
+      (opts.senderPublicKey && opts.senderPublicKey !== sender)
+    ) {
+      throw new Error(ERROR.MISSING_OR_INVALID.stringify({ name: "type 1 envelope sender" }));
+    }
+    const symKey = this.getEnvelopeSymKey(receiverPublicKey, sender);
+    return decrypt({ type: TYPE_1, symKey, encoded, ...this.getDecompression(compression) });
+  }
+
+  // inflate only what this client supports, up to the configured size
+  private getDecompression(compression?: string) {
+    if (!compression || !this.getSupportedCompression().includes(compression)) return {};
+    return { compression, maxSize: this.compression.maxSize };
+  }
+
+  private getCompression(message: string, compression?: string) {
+    if (!compression || !this.getSupportedCompression().includes(compression)) return;
+    if (message.length < this.compression.threshold) return;
+    return compression;
+  }
+
   private getSymKey(topic: string) {
     const symKey = this.keychain.get(topic);
     return symKey;
@@ -1,10 +1,21 @@
 import { generateChildLogger, getLoggerContext } from "@walletconnect/logger";
-import { ICore, IStore, PairingTypes, ProposalTypes, SessionTypes } from "@walletconnect/types";
+import {
+  ICore,
+  IStore,
+  PairingTypes,
+  PendingRequestTypes,
+  ProposalTypes,
+  SessionTypes,
+} from "@walletconnect/types";
 import { ERROR, isProposalStruct, isSessionStruct } from "@walletconnect/utils";
 import { Logger } from "pino";
 import { CORE_STORAGE_PREFIX, STORE_STORAGE_VERSION } from "../constants";
 
-type StoreStruct = SessionTypes.Struct | PairingTypes.Struct | ProposalTypes.Struct;
+type StoreStruct =
+  | SessionTypes.Struct
+  | PairingTypes.Struct
+  | ProposalTypes.Struct
+  | PendingRequestTypes.Struct;
 
 export class Store<Key, Data extends StoreStruct> extends IStore<Key, Data> {
   public map = new Map<Key, Data>();
@@ -20,8 +31,9 @@ export class Store<Key, Data extends StoreStruct> extends IStore<Key, Data> {
     public logger: Logger,
     public name: string,
     storagePrefix = CORE_STORAGE_PREFIX,
+    public getKey?: (data: Data) => Key,
   ) {
-    super(core, logger, name, storagePrefix);
+    super(core, logger, name, storagePrefix, getKey);
     this.logger = generateChildLogger(logger, this.name);
     this.storagePrefix = storagePrefix;
   }
@@ -33,7 +45,9 @@ export class Store<Key, Data extends StoreStruct> extends IStore<Key, Data> {
       await this.restore();
 
       this.cached.forEach(value => {
-        if (isProposalStruct(value)) {
+        if (this.getKey) {
+          this.map.set(this.getKey(value), value);
+        } else if (isProposalStruct(value)) {
           // TODO(pedro) revert type casting as any
           this.map.set(value.id as any, value);
         } else if (isSessionStruct(value)) {
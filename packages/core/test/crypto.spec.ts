@@ -154,11 +154,10 @@ describe("Crypto", () => {
       const symKey = utils.generateRandomBytes32();
       // Set a topic-symKey pair in the keychain to later retrieve via `encrypt`.
       const topic = await crypto.setSymKey(symKey);
-      const spy = Sinon.spy();
-      // @ts-ignore
-      utils.encrypt = spy;
+      const stub = Sinon.stub(utils, "encrypt");
       crypto.encrypt(topic, message);
-      const [payload] = spy.getCall(0).args;
+      stub.restore();
+      const [payload] = stub.getCall(0).args;
       expect(payload).to.deep.equal({ symKey, message });
     });
   });
@@ -179,11 +178,10 @@ describe("Crypto", () => {
       const symKey = utils.generateRandomBytes32();
       // Set a topic-symKey pair in the keychain to later retrieve via `decrypt`.
       const topic = await crypto.setSymKey(symKey);
-      const spy = Sinon.spy();
-      // @ts-ignore
-      utils.decrypt = spy;
+      const stub = Sinon.stub(utils, "decrypt");
       crypto.decrypt(topic, encoded);
-      const [payload] = spy.getCall(0).args;
+      stub.restore();
+      const [payload] = stub.getCall(0).args;
       expect(payload).to.deep.equal({ symKey, encoded });
     });
   });
@@ -210,6 +208,89 @@ describe("Crypto", () => {
       expect(calledTopic).to.equal(topic);
       expect(calledMessage).to.equal(safeJsonStringify(payload));
     });
+    it("compresses `payload` only when enabled and above the threshold", async () => {
+      const compressing = new Crypto(
+        new Core({ ...TEST_CORE_OPTIONS, compression: { enabled: true, threshold: 10 } }),
+        logger,
+      );
+      await compressing.init();
+      const topic = await compressing.setSymKey(utils.generateRandomBytes32());
+      const spy = Sinon.spy();
+      compressing.encrypt = spy;
+      compressing.encode(topic, payload, { compression: utils.COMPRESSION_DEFLATE });
+      expect(spy.getCall(0).args[2]).to.equal(utils.COMPRESSION_DEFLATE);
+      compressing.encode(topic, { id: 1, jsonrpc: "2.0", result: "" }, { compression: "lz4" });
+      expect(spy.getCall(1).args[2]).to.be.undefined;
+      compressing.compression.threshold = 1024;
+      compressing.encode(topic, payload, { compression: utils.COMPRESSION_DEFLATE });
+      expect(spy.getCall(2).args[2]).to.be.undefined;
+    });
+    it("does not compress `payload` when compression is disabled", async () => {
+      const topic = await crypto.setSymKey(utils.generateRandomBytes32());
+      const spy = Sinon.spy();
+      crypto.encrypt = spy;
+      crypto.encode(topic, payload, { compression: utils.COMPRESSION_DEFLATE });
+      expect(spy.getCall(0).args[2]).to.be.undefined;
+    });
+  });
+
+  describe("envelopes", () => {
+    const payload = { id: 1, jsonrpc: "2.0", result: "result" };
+
+    it("encodes for a peer public key and decodes with the receiver key pair", async () => {
+      const receiver = new Crypto(core, logger);
+      await receiver.init();
+      const senderPublicKey = await crypto.generateKeyPair();
+      const receiverPublicKey = await receiver.generateKeyPair();
+      const topic = utils.generateRandomBytes32();
+      const encoded = crypto.encode(topic, payload, {
+        type: utils.TYPE_1,
+        senderPublicKey,
+        receiverPublicKey,
+      });
+      expect(utils.isTypeOneEnvelope(encoded)).to.be.true;
+      expect(receiver.decode(topic, encoded, { receiverPublicKey })).to.deep.equal(payload);
+    });
+    it("rejects envelopes sealed by another sender than expected", async () => {
+      const receiver = new Crypto(core, logger);
+      await receiver.init();
+      const senderPublicKey = await crypto.generateKeyPair();
+      const receiverPublicKey = await receiver.generateKeyPair();
+      const topic = utils.generateRandomBytes32();
+      const encoded = crypto.encode(topic, payload, {
+        type: utils.TYPE_1,
+        senderPublicKey,
+        receiverPublicKey,
+      });
+      expect(() =>
+        receiver.decode(topic, encoded, {
+          receiverPublicKey,
+          senderPublicKey: utils.generateRandomBytes32(),
+        }),
+      ).to.throw("Missing or invalid type 1 envelope sender");
+    });
+    it("decodes compressed payloads only with negotiated compression", async () => {
+      const compressing = new Crypto(
+        new Core({ ...TEST_CORE_OPTIONS, compression: { enabled: true, threshold: 10 } }),
+        logger,
+      );
+      await compressing.init();
+      const topic = await compressing.setSymKey(utils.generateRandomBytes32());
+      const encoded = compressing.encode(topic, payload, {
+        compression: utils.COMPRESSION_DEFLATE,
+      });
+      expect(utils.isCompressedEnvelope(encoded)).to.be.true;
+      expect(
+        compressing.decode(topic, encoded, { compression: utils.COMPRESSION_DEFLATE }),
+      ).to.deep.equal(payload);
+      expect(() => compressing.decode(topic, encoded)).to.throw("Failed to decrypt");
+    });
+    it("throws if public keys are missing", () => {
+      const topic = utils.generateRandomBytes32();
+      expect(() => crypto.encode(topic, payload, { type: utils.TYPE_1 })).to.throw(
+        "Missing or invalid type 1 envelope public keys",
+      );
+    });
   });
 
   describe("decode", () => {
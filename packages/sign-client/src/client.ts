@@ -8,14 +8,28 @@ import { SignClientTypes, ISignClient, ISignClientEvents, EngineTypes } from "@w
 import { getAppMetadata } from "@walletconnect/utils";
 import { EventEmitter } from "events";
 import pino from "pino";
-import { SIGN_CLIENT_DEFAULT, SIGN_CLIENT_PROTOCOL, SIGN_CLIENT_VERSION } from "./constants";
-import { Engine, Expirer, JsonRpcHistory, Pairing, Proposal, Session } from "./controllers";
+import {
+  SIGN_CLIENT_DEFAULT,
+  SIGN_CLIENT_DEFAULT_TTL,
+  SIGN_CLIENT_PROTOCOL,
+  SIGN_CLIENT_VERSION,
+} from "./constants";
+import {
+  Engine,
+  Expirer,
+  JsonRpcHistory,
+  Pairing,
+  PendingRequest,
+  Proposal,
+  Session,
+} from "./controllers";
 
 export class SignClient extends ISignClient {
   public readonly protocol = SIGN_CLIENT_PROTOCOL;
   public readonly version = SIGN_CLIENT_VERSION;
   public readonly name: ISignClient["name"] = SIGN_CLIENT_DEFAULT.name;
   public readonly metadata: ISignClient["metadata"];
+  public readonly ttl: ISignClient["ttl"];
 
   public core: ISignClient["core"];
   public logger: ISignClient["logger"];
@@ -24,6 +38,7 @@ export class SignClient extends ISignClient {
   public pairing: ISignClient["pairing"];
   public session: ISignClient["session"];
   public proposal: ISignClient["proposal"];
+  public pendingRequest: ISignClient["pendingRequest"];
   public history: ISignClient["history"];
   public expirer: ISignClient["expirer"];
 
@@ -39,6 +54,7 @@ export class SignClient extends ISignClient {
 
     this.name = opts?.name || SIGN_CLIENT_DEFAULT.name;
     this.metadata = opts?.metadata || getAppMetadata();
+    this.ttl = { ...SIGN_CLIENT_DEFAULT_TTL, ...opts?.ttl };
 
     const logger =
       typeof opts?.logger !== "undefined" && typeof opts?.logger !== "string"
@@ -50,8 +66,9 @@ export class SignClient extends ISignClient {
     this.pairing = new Pairing(this.core, this.logger);
     this.session = new Session(this.core, this.logger);
     this.proposal = new Proposal(this.core, this.logger);
+    this.pendingRequest = new PendingRequest(this.core, this.logger);
     this.history = new JsonRpcHistory(this.core, this.logger);
-    this.expirer = new Expirer(this.core, this.logger);
+    this.expirer = new Expirer(this.core, this.logger, opts?.expirer);
     this.engine = new Engine(this);
   }
 
@@ -133,6 +150,15 @@ export class SignClient extends ISignClient {
     }
   };
 
+  public rekey: ISignClient["rekey"] = async params => {
+    try {
+      return await this.engine.rekey(params);
+    } catch (error) {
+      this.logger.error((error as any).message);
+      throw error;
+    }
+  };
+
   public request: ISignClient["request"] = async <T>(params: EngineTypes.RequestParams) => {
     try {
       return await this.engine.request<T>(params);
@@ -187,6 +213,42 @@ export class SignClient extends ISignClient {
     }
   };
 
+  public querySessions: ISignClient["querySessions"] = params => {
+    try {
+      return this.engine.querySessions(params);
+    } catch (error) {
+      this.logger.error((error as any).message);
+      throw error;
+    }
+  };
+
+  public getPendingSessionRequests: ISignClient["getPendingSessionRequests"] = () => {
+    try {
+      return this.engine.getPendingSessionRequests();
+    } catch (error) {
+      this.logger.error((error as any).message);
+      throw error;
+    }
+  };
+
+  public getPairings: ISignClient["getPairings"] = () => {
+    try {
+      return this.engine.getPairings();
+    } catch (error) {
+      this.logger.error((error as any).message);
+      throw error;
+    }
+  };
+
+  public updatePairing: ISignClient["updatePairing"] = async params => {
+    try {
+      return await this.engine.updatePairing(params);
+    } catch (error) {
+      this.logger.error((error as any).message);
+      throw error;
+    }
+  };
+
   // ---------- Private ----------------------------------------------- //
 
   private async initialize() {
@@ -196,6 +258,7 @@ export class SignClient extends ISignClient {
       await this.pairing.init();
       await this.session.init();
       await this.proposal.init();
+      await this.pendingRequest.init();
       await this.history.init();
       await this.expirer.init();
       await this.engine.init();
@@ -1,4 +1,7 @@
 import { SignClientTypes } from "@walletconnect/types";
+import { PAIRING_DEFAULT_TTL, PAIRING_INACTIVE_DEFAULT_TTL } from "./pairing";
+import { PROPOSAL_DEFAULT_TTL } from "./proposal";
+import { SESSION_DEFAULT_TTL } from "./session";
 
 export const SIGN_CLIENT_PROTOCOL = "wc";
 export const SIGN_CLIENT_VERSION = 2;
@@ -13,18 +16,37 @@ export const SIGN_CLIENT_DEFAULT = {
   relayUrl: "wss://relay.walletconnect.com",
 };
 
+export const SIGN_CLIENT_DEFAULT_TTL: SignClientTypes.Ttl = {
+  session: SESSION_DEFAULT_TTL,
+  pairing: PAIRING_DEFAULT_TTL,
+  inactivePairing: PAIRING_INACTIVE_DEFAULT_TTL,
+  proposal: PROPOSAL_DEFAULT_TTL,
+};
+
 export const SIGN_CLIENT_EVENTS: Record<SignClientTypes.Event, SignClientTypes.Event> = {
   session_proposal: "session_proposal",
   session_update: "session_update",
   session_extend: "session_extend",
+  session_rekey: "session_rekey",
   session_ping: "session_ping",
   pairing_ping: "pairing_ping",
   session_delete: "session_delete",
   session_expire: "session_expire",
   pairing_delete: "pairing_delete",
   pairing_expire: "pairing_expire",
+  proposal_expire: "proposal_expire",
+  request_expire: "request_expire",
   session_request: "session_request",
   session_event: "session_event",
+  session_created: "session_created",
+  session_updated: "session_updated",
+  session_deleted: "session_deleted",
+  pending_requests: "pending_requests",
+  pairing_created: "pairing_created",
+  session_peer_reachable: "session_peer_reachable",
+  session_peer_unreachable: "session_peer_unreachable",
+  session_auto_extend: "session_auto_extend",
+  session_auto_extend_failure: "session_auto_extend_failure",
 };
 
 export const SIGN_CLIENT_STORAGE_OPTIONS = {
@@ -1 +1,43 @@
+import {
+  FIVE_MINUTES,
+  FIVE_SECONDS,
+  ONE_MINUTE,
+  TEN_SECONDS,
+  THIRTY_SECONDS,
+} from "@walletconnect/time";
+import { JsonRpcTypes, SignClientTypes } from "@walletconnect/types";
+
 export const ENGINE_CONTEXT = "engine";
+
+export const ENGINE_MIDDLEWARE_WILDCARD = "*";
+
+export const ENGINE_LIVENESS_DEFAULT: SignClientTypes.Liveness = {
+  interval: ONE_MINUTE,
+  timeout: TEN_SECONDS,
+};
+
+// requests sent without an expiry time out after this long, on both sides
+export const ENGINE_REQUEST_DEFAULT_EXPIRY = FIVE_MINUTES;
+
+// received requests outlive their expiry by this long, so the requester's own answer arrives first
+export const ENGINE_REQUEST_EXPIRY_GRACE = FIVE_SECONDS;
+
+// a rekeyed session's previous topic stays subscribed this long for messages still in flight
+export const ENGINE_REKEY_GRACE = THIRTY_SECONDS;
+
+// liveness and extension traffic keeps the session alive without counting as user activity
+export const ENGINE_IDLE_METHODS: string[] = ["wc_sessionPing", "wc_sessionExtend"];
+
+export const ENGINE_RPC_METHODS: Record<JsonRpcTypes.WcMethod, JsonRpcTypes.WcMethod> = {
+  wc_pairingDelete: "wc_pairingDelete",
+  wc_pairingPing: "wc_pairingPing",
+  wc_sessionPropose: "wc_sessionPropose",
+  wc_sessionSettle: "wc_sessionSettle",
+  wc_sessionUpdate: "wc_sessionUpdate",
+  wc_sessionExtend: "wc_sessionExtend",
+  wc_sessionRekey: "wc_sessionRekey",
+  wc_sessionDelete: "wc_sessionDelete",
+  wc_sessionPing: "wc_sessionPing",
+  wc_sessionRequest: "wc_sessionRequest",
+  wc_sessionEvent: "wc_sessionEvent",
+};
@@ -1,4 +1,5 @@
 import { ONE_DAY } from "@walletconnect/time";
+import { ExpirerTypes } from "@walletconnect/types";
 
 export const EXPIRER_CONTEXT = "expirer";
 
@@ -7,8 +8,18 @@ export const EXPIRER_EVENTS = {
   deleted: "expirer_deleted",
   expired: "expirer_expired",
   sync: "expirer_sync",
+  warning: "expirer_warning",
 };
 
 export const EXPIRER_STORAGE_VERSION = "0.3";
 
 export const EXPIRER_DEFAULT_TTL = ONE_DAY;
+
+// longest delay accepted by setTimeout, in milliseconds
+export const EXPIRER_MAX_TIMEOUT = 2147483647;
+
+export const EXPIRER_DEFAULT_CLOCK: ExpirerTypes.Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, timeout) => setTimeout(callback, timeout),
+  clearTimeout: timer => clearTimeout(timer),
+};
@@ -2,6 +2,7 @@ export * from "./client";
 export * from "./expirer";
 export * from "./history";
 export * from "./pairing";
+export * from "./pendingRequest";
 export * from "./proposal";
 export * from "./session";
 export * from "./engine";
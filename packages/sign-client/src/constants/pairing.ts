@@ -1,5 +1,7 @@
-import { THIRTY_DAYS } from "@walletconnect/time";
+import { FIVE_MINUTES, THIRTY_DAYS } from "@walletconnect/time";
 
 export const PAIRING_CONTEXT = "pairing";
 
 export const PAIRING_DEFAULT_TTL = THIRTY_DAYS;
+
+export const PAIRING_INACTIVE_DEFAULT_TTL = FIVE_MINUTES;
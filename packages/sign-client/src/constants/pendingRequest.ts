@@ -0,0 +1 @@
+export const PENDING_REQUEST_CONTEXT = "pending_request";
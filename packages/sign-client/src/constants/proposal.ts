@@ -1,6 +1,5 @@
-import { calcExpiry } from "@walletconnect/utils";
-import { THIRTY_DAYS } from "@walletconnect/time";
+import { FIVE_MINUTES } from "@walletconnect/time";
 
 export const PROPOSAL_CONTEXT = "proposal";
 
-export const PROPOSAL_EXPIRY = calcExpiry(THIRTY_DAYS);
+export const PROPOSAL_DEFAULT_TTL = FIVE_MINUTES;
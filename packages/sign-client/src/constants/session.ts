@@ -1,8 +1,14 @@
-import { SEVEN_DAYS } from "@walletconnect/time";
-import { calcExpiry } from "@walletconnect/utils";
+import { ONE_DAY, ONE_MINUTE, SEVEN_DAYS, THIRTY_DAYS } from "@walletconnect/time";
 
 export const SESSION_CONTEXT = "session";
 
 export const SESSION_DEFAULT_TTL = SEVEN_DAYS;
 
-export const SESSION_EXPIRY = calcExpiry(SESSION_DEFAULT_TTL);
+export const SESSION_MAX_TTL = THIRTY_DAYS;
+
+export const SESSION_AUTO_EXTEND_DEFAULT = {
+  threshold: ONE_DAY,
+  activity: SEVEN_DAYS,
+};
+
+export const SESSION_AUTO_EXTEND_RETRY_INTERVAL = ONE_MINUTE;
@@ -1,6 +1,20 @@
 import EventEmmiter from "events";
+import { HEARTBEAT_EVENTS } from "@walletconnect/heartbeat";
 import { RELAYER_EVENTS, RELAYER_DEFAULT_PROTOCOL } from "@walletconnect/core";
-import { EXPIRER_EVENTS, SESSION_EXPIRY, PROPOSAL_EXPIRY, ENGINE_CONTEXT } from "../constants";
+import {
+  EXPIRER_EVENTS,
+  SESSION_MAX_TTL,
+  ENGINE_CONTEXT,
+  ENGINE_MIDDLEWARE_WILDCARD,
+  ENGINE_REQUEST_DEFAULT_EXPIRY,
+  ENGINE_REQUEST_EXPIRY_GRACE,
+  ENGINE_RPC_METHODS,
+  ENGINE_IDLE_METHODS,
+  ENGINE_REKEY_GRACE,
+  ENGINE_LIVENESS_DEFAULT,
+  SESSION_AUTO_EXTEND_DEFAULT,
+  SESSION_AUTO_EXTEND_RETRY_INTERVAL,
+} from "../constants";
 import {
   formatJsonRpcRequest,
   formatJsonRpcResult,
@@ -9,8 +23,10 @@ import {
   isJsonRpcResponse,
   isJsonRpcResult,
   isJsonRpcError,
+  ErrorResponse,
+  JsonRpcPayload,
 } from "@walletconnect/jsonrpc-utils";
-import { FIVE_MINUTES } from "@walletconnect/time";
+import { fromMiliseconds, toMiliseconds } from "@walletconnect/time";
 import {
   IEngine,
   EngineTypes,
@@ -22,6 +38,7 @@ import {
   ExpirerTypes,
 } from "@walletconnect/types";
 import {
+  autoExtendTag,
   calcExpiry,
   formatUri,
   generateRandomBytes32,
@@ -35,6 +52,7 @@ import {
   isValidId,
   isValidParams,
   isValidString,
+  isValidNumber,
   isValidErrorReason,
   isValidNamespacesChainId,
   isValidNamespacesRequest,
@@ -43,7 +61,13 @@ import {
   isValidEvent,
   isValidResponse,
   isValidRequiredNamespaces,
+  isValidRedirect,
+  isValidNamespacesScope,
+  getNamespacesConformanceDiff,
+  getNamespacesDiff,
+  isValidRelay,
   isSessionCompatible,
+  isSessionMatchingQuery,
   isExpired,
   isUndefined,
 } from "@walletconnect/utils";
@@ -51,6 +75,18 @@ import {
 export class Engine extends IEngine {
   private events: IEngineEvents = new EventEmmiter();
   private initialized = false;
+  private middlewares: {
+    method: string;
+    middleware: EngineTypes.SessionRequestMiddleware;
+  }[] = [];
+  private customMethods = new Map<string, EngineTypes.CustomMethodHandler>();
+  // last liveness check of each session peer
+  private liveness = new Map<
+    string,
+    { checkedAt: number; pending: boolean; reachable?: boolean }
+  >();
+  // last automatic extension check of each session
+  private autoExtensions = new Map<string, number>();
   public name = ENGINE_CONTEXT;
 
   constructor(client: IEngine["client"]) {
@@ -62,7 +98,15 @@ export class Engine extends IEngine {
       await this.cleanup();
       this.registerRelayerEvents();
       this.registerExpirerEvents();
+      this.client.expirer.start();
+      this.registerLivenessMonitor();
+      this.registerAutoExtension();
       this.initialized = true;
+      const requests = this.getPendingSessionRequests();
+      if (requests.length) {
+        // deferred so that listeners attached right after init receive it
+        setTimeout(() => this.client.events.emit("pending_requests", { requests }), 0);
+      }
     }
   };
 
@@ -71,7 +115,8 @@ export class Engine extends IEngine {
   public connect: IEngine["connect"] = async params => {
     this.isInitialized();
     await this.isValidConnect(params);
-    const { pairingTopic, requiredNamespaces, relays } = params;
+    this.isValidMetadata(this.client.metadata, "connect");
+    const { pairingTopic, requiredNamespaces, optionalNamespaces, relays } = params;
     let topic = pairingTopic;
     let uri: string | undefined = undefined;
     let active = false;
@@ -88,33 +133,44 @@ export class Engine extends IEngine {
     }
 
     const publicKey = await this.client.core.crypto.generateKeyPair();
+    const expiry = calcExpiry(this.client.ttl.proposal);
+    const compression = this.client.core.crypto.getSupportedCompression();
     const proposal = {
       requiredNamespaces,
+      optionalNamespaces,
       relays: relays ?? [{ protocol: RELAYER_DEFAULT_PROTOCOL }],
       proposer: {
         publicKey,
         metadata: this.client.metadata,
       },
+      ...(compression.length ? { compression } : {}),
     };
 
-    const { reject, resolve, done: approval } = createDelayedPromise<SessionTypes.Struct>();
+    if (!topic) throw new Error(ERROR.MISSING_OR_INVALID.stringify({ name: "topic" }));
+
+    const id = await this.sendRequest(topic, "wc_sessionPropose", proposal);
+    const { reject, resolve, done } = createDelayedPromise<SessionTypes.Struct>(
+      this.client.ttl.proposal,
+    );
     this.events.once<"session_connect">(
-      engineEvent("session_connect"),
-      async ({ error, session }) => {
+      engineEvent("session_connect", id),
+      ({ error, session }) => {
         if (error) reject(error);
-        else if (session) {
-          session.self.publicKey = publicKey;
-          await this.client.session.set(session.topic, session);
-          await this.setExpiry(session.topic, session.expiry);
-          resolve(session);
-        }
+        else if (session) resolve(session);
       },
     );
-
-    if (!topic) throw new Error(ERROR.MISSING_OR_INVALID.stringify({ name: "topic" }));
-
-    const id = await this.sendRequest(topic, "wc_sessionPropose", proposal);
-    await this.client.proposal.set(id, { id, ...proposal });
+    await this.client.proposal.set(id, { id, expiry, pairingTopic: topic, ...proposal });
+    this.setProposalExpiry(id, topic, expiry);
+
+    const approval = async () => {
+      try {
+        return await done();
+      } catch (error) {
+        // The expirer may not have pulsed yet when our own timer runs out
+        if (isUndefined(error)) throw ERROR.EXPIRED.format({ context: "proposal" });
+        throw error;
+      }
+    };
 
     return { uri, approval };
   };
@@ -122,13 +178,17 @@ export class Engine extends IEngine {
   public pair: IEngine["pair"] = async params => {
     this.isInitialized();
     this.isValidPair(params);
-    const { topic, symKey, relay } = parseUri(params.uri);
-    const expiry = calcExpiry(FIVE_MINUTES);
+    const { topic, symKey, relay, expiryTimestamp } = parseUri(params.uri);
+    if (expiryTimestamp && isExpired(expiryTimestamp)) {
+      throw ERROR.EXPIRED.format({ context: "pairing" });
+    }
+    const expiry = expiryTimestamp || calcExpiry(this.client.ttl.inactivePairing);
     const pairing = { topic, relay, expiry, active: false };
     await this.client.pairing.set(topic, pairing);
     await this.client.core.crypto.setSymKey(symKey, topic);
     await this.client.core.relayer.subscribe(topic, { relay });
     await this.setExpiry(topic, expiry);
+    this.client.events.emit("pairing_created", { pairing });
 
     return pairing;
   };
@@ -136,8 +196,9 @@ export class Engine extends IEngine {
   public approve: IEngine["approve"] = async params => {
     this.isInitialized();
     this.isValidApprove(params);
-    const { id, relayProtocol, namespaces } = params;
-    const { pairingTopic, proposer } = this.client.proposal.get(id);
+    this.isValidMetadata(this.client.metadata, "approve");
+    const { id, relayProtocol, namespaces, ttl = this.client.ttl.session } = params;
+    const { pairingTopic, proposer, compression } = this.client.proposal.get(id);
 
     const selfPublicKey = await this.client.core.crypto.generateKeyPair();
     const peerPublicKey = proposer.publicKey;
@@ -154,7 +215,8 @@ export class Engine extends IEngine {
         publicKey: selfPublicKey,
         metadata: this.client.metadata,
       },
-      expiry: SESSION_EXPIRY,
+      expiry: calcExpiry(ttl),
+      compression: this.negotiateCompression(compression),
     };
 
     await this.client.core.relayer.subscribe(sessionTopic);
@@ -175,9 +237,12 @@ export class Engine extends IEngine {
         metadata: proposer.metadata,
       },
       controller: selfPublicKey,
+      pairingTopic,
+      createdAt: fromMiliseconds(Date.now()),
+      lastActivity: fromMiliseconds(Date.now()),
     };
     await this.client.session.set(sessionTopic, session);
-    await this.setExpiry(sessionTopic, SESSION_EXPIRY);
+    await this.setExpiry(sessionTopic, sessionSettle.expiry);
 
     if (pairingTopic && id) {
       await this.sendResult<"wc_sessionPropose">(id, pairingTopic, {
@@ -186,7 +251,7 @@ export class Engine extends IEngine {
         },
         responderPublicKey: selfPublicKey,
       });
-      await this.client.proposal.delete(id, ERROR.DELETED.format());
+      await this.deleteProposal(id);
       await this.activatePairing(pairingTopic);
     }
 
@@ -200,7 +265,7 @@ export class Engine extends IEngine {
     const { pairingTopic } = this.client.proposal.get(id);
     if (pairingTopic) {
       await this.sendError(id, pairingTopic, reason);
-      await this.client.proposal.delete(id, ERROR.DELETED.format());
+      await this.deleteProposal(id);
     }
   };
 
@@ -215,6 +280,7 @@ export class Engine extends IEngine {
       else resolve();
     });
     await this.client.session.update(topic, { namespaces });
+    this.client.events.emit("session_updated", { session: this.client.session.get(topic) });
 
     return { acknowledged };
   };
@@ -222,29 +288,83 @@ export class Engine extends IEngine {
   public extend: IEngine["extend"] = async params => {
     this.isInitialized();
     await this.isValidExtend(params);
-    const { topic } = params;
-    const id = await this.sendRequest(topic, "wc_sessionExtend", {});
+    const { topic, ttl = this.client.ttl.session } = params;
+    const expiry = calcExpiry(ttl);
+    const id = await this.sendRequest(topic, "wc_sessionExtend", { expiry });
     const { done: acknowledged, resolve, reject } = createDelayedPromise<void>();
     this.events.once(engineEvent("session_extend", id), ({ error }) => {
       if (error) reject(error);
       else resolve();
     });
-    await this.setExpiry(topic, SESSION_EXPIRY);
+    await this.setExpiry(topic, expiry);
 
     return { acknowledged };
   };
 
+  public rekey: IEngine["rekey"] = async params => {
+    this.isInitialized();
+    await this.isValidRekey(params);
+    const { topic } = params;
+    const publicKey = await this.client.core.crypto.generateKeyPair();
+    const id = await this.sendRequest(topic, "wc_sessionRekey", { publicKey });
+    const { done, resolve, reject } = createDelayedPromise<SessionTypes.Struct>();
+    const event = engineEvent("session_rekey", id);
+    const onResponse = ({ error, session }: EngineTypes.EventArguments["session_rekey"]) => {
+      if (error) reject(error);
+      else if (session) resolve(session);
+    };
+    this.events.once<"session_rekey">(event, onResponse);
+    // the timeout runs whether or not acknowledged is awaited, a refused or timed out rekey
+    // leaves its key pair behind otherwise
+    const response = done();
+    response.catch(async () => {
+      this.events.removeListener(event, onResponse);
+      await this.client.core.crypto.deleteKeyPair(publicKey);
+    });
+
+    return { acknowledged: () => response };
+  };
+
   public request: IEngine["request"] = async <T>(params: EngineTypes.RequestParams) => {
     this.isInitialized();
     await this.isValidRequest(params);
-    const { chainId, request, topic } = params;
-    const id = await this.sendRequest(topic, "wc_sessionRequest", { request, chainId });
-    const { done, resolve, reject } = createDelayedPromise<T>();
-    this.events.once<"session_request">(engineEvent("session_request", id), ({ error, result }) => {
-      if (error) reject(error);
-      else if (result) resolve(result);
+    const { chainId, request, topic, expiry = ENGINE_REQUEST_DEFAULT_EXPIRY, signal } = params;
+    // the peer drops the request on its own once it expires, also when it was aborted here
+    const requestExpiry = calcExpiry(expiry);
+    const id = await this.sendRequest(topic, "wc_sessionRequest", {
+      request,
+      chainId,
+      expiry: requestExpiry,
     });
-    return await done();
+    this.setRequestExpiry(id, topic, requestExpiry);
+    const { done, resolve, reject } = createDelayedPromise<T>(expiry);
+    const requestedAt = Date.now();
+    const event = engineEvent("session_request", id);
+    const onResponse = ({ error, result }: EngineTypes.EventArguments["session_request"]) => {
+      if (error) reject(error);
+      else resolve(result);
+    };
+    // Timeouts and aborts both reject without a reason, peer errors always carry one
+    const onAbort = () => reject();
+    const response = done();
+    this.events.once<"session_request">(event, onResponse);
+    signal?.addEventListener("abort", onAbort);
+    if (signal?.aborted) onAbort();
+    try {
+      return await response;
+    } catch (error) {
+      if (!isUndefined(error)) throw error;
+      const reason = ERROR.JSONRPC_REQUEST_TIMEOUT.format({
+        timeout: Date.now() - requestedAt,
+        method: request.method,
+      });
+      await this.expireRequest(id, reason);
+      if (!signal?.aborted) this.client.events.emit("request_expire", { id, topic });
+      throw reason;
+    } finally {
+      this.events.removeListener(event, onResponse);
+      signal?.removeEventListener("abort", onAbort);
+    }
   };
 
   public respond: IEngine["respond"] = async params => {
@@ -252,11 +372,8 @@ export class Engine extends IEngine {
     await this.isValidRespond(params);
     const { topic, response } = params;
     const { id } = response;
-    if (isJsonRpcResult(response)) {
-      await this.sendResult(id, topic, response.result);
-    } else if (isJsonRpcError(response)) {
-      await this.sendError(id, topic, response.error);
-    }
+    await this.sendResponse(id, topic, response);
+    await this.deletePendingRequest(id);
   };
 
   public ping: IEngine["ping"] = async params => {
@@ -292,13 +409,12 @@ export class Engine extends IEngine {
   public disconnect: IEngine["disconnect"] = async params => {
     this.isInitialized();
     await this.isValidDisconnect(params);
-    const { topic } = params;
+    const { topic, reason } = params;
     if (this.client.session.keys.includes(topic)) {
-      await this.sendRequest(topic, "wc_sessionDelete", ERROR.DELETED.format());
-      await this.deleteSession(topic);
+      await this.sendRequest(topic, "wc_sessionDelete", reason);
+      await this.deleteSession(topic, reason);
     } else if (this.client.pairing.keys.includes(topic)) {
-      await this.sendRequest(topic, "wc_pairingDelete", ERROR.DELETED.format());
-      await this.deletePairing(topic);
+      await this.deletePairing(topic, reason, true);
     }
   };
 
@@ -307,12 +423,72 @@ export class Engine extends IEngine {
     return this.client.session.values.filter(session => isSessionCompatible(session, params));
   };
 
+  public querySessions: IEngine["querySessions"] = (params = {}) => {
+    this.isInitialized();
+    this.isValidQuerySessions(params);
+    const activity = (session: SessionTypes.Struct) =>
+      session.lastActivity || session.createdAt || 0;
+    return this.client.session.values
+      .filter(session => isSessionMatchingQuery(session, params))
+      .sort((a, b) => activity(b) - activity(a));
+  };
+
+  public getPairings: IEngine["getPairings"] = () => {
+    this.isInitialized();
+    return this.client.pairing.values;
+  };
+
+  public updatePairing: IEngine["updatePairing"] = async params => {
+    this.isInitialized();
+    await this.isValidUpdatePairing(params);
+    const { topic, label } = params;
+    await this.client.pairing.update(topic, { label });
+  };
+
+  public getPendingSessionRequests: IEngine["getPendingSessionRequests"] = () => {
+    this.isInitialized();
+    return this.client.pendingRequest.values;
+  };
+
+  public registerMethod: IEngine["registerMethod"] = (method, handler) => {
+    if (!isValidString(method, false) || Object.keys(ENGINE_RPC_METHODS).includes(method)) {
+      throw ERROR.MISSING_OR_INVALID.format({ name: "registerMethod method" });
+    }
+    if (this.customMethods.has(method)) {
+      throw ERROR.RECORD_ALREADY_EXISTS.format({ context: "custom method", id: method });
+    }
+    this.customMethods.set(method, handler);
+  };
+
+  public sendCustomRequest: IEngine["sendCustomRequest"] = async <P, R>(
+    params: EngineTypes.CustomRequestParams<P>,
+  ) => {
+    this.isInitialized();
+    await this.isValidCustomRequest(params);
+    const { topic, method } = params;
+    const id = await this.sendRequest(topic, method, params.params);
+    const { done, resolve, reject } = createDelayedPromise<R>();
+    this.events.once<"custom_request">(engineEvent("custom_request", id), ({ result, error }) => {
+      if (error) reject(error);
+      else resolve(result);
+    });
+    return await done();
+  };
+
+  public use: IEngine["use"] = (method, middleware) => {
+    const entry = { method, middleware };
+    this.middlewares.push(entry);
+    return () => {
+      this.middlewares = this.middlewares.filter(m => m !== entry);
+    };
+  };
+
   // ---------- Private Helpers --------------------------------------- //
 
   private async createPairing() {
     const symKey = generateRandomBytes32();
     const topic = await this.client.core.crypto.setSymKey(symKey);
-    const expiry = calcExpiry(FIVE_MINUTES);
+    const expiry = calcExpiry(this.client.ttl.inactivePairing);
     const relay = { protocol: RELAYER_DEFAULT_PROTOCOL };
     const pairing = { topic, expiry, relay, active: false };
     const uri = formatUri({
@@ -321,69 +497,284 @@ export class Engine extends IEngine {
       topic,
       symKey,
       relay,
+      expiryTimestamp: expiry,
     });
     await this.client.pairing.set(topic, pairing);
     await this.client.core.relayer.subscribe(topic);
     await this.setExpiry(topic, expiry);
+    this.client.events.emit("pairing_created", { pairing });
 
     return { topic, uri };
   }
 
   private activatePairing: EnginePrivate["activatePairing"] = async topic => {
-    await this.client.pairing.update(topic, { active: true, expiry: PROPOSAL_EXPIRY });
-    await this.setExpiry(topic, PROPOSAL_EXPIRY);
+    const expiry = calcExpiry(this.client.ttl.pairing);
+    await this.client.pairing.update(topic, { active: true, expiry });
+    await this.setExpiry(topic, expiry);
   };
 
-  private deleteSession: EnginePrivate["deleteSession"] = async topic => {
-    const { self } = this.client.session.get(topic);
+  private setPairingMetadata: EnginePrivate["setPairingMetadata"] = async (topic, metadata) => {
+    if (!this.client.pairing.keys.includes(topic)) return;
+    await this.client.pairing.update(topic, { peerMetadata: metadata });
+  };
+
+  private deleteSession: EnginePrivate["deleteSession"] = async (
+    topic,
+    reason = ERROR.DELETED.format(),
+  ) => {
+    // may already have been deleted along with its pairing
+    if (!this.client.session.keys.includes(topic)) return;
+    const session = this.client.session.get(topic);
+    const requests = this.client.pendingRequest.values.filter(request => request.topic === topic);
+    // expirations of received requests go along with them
+    const requestExpirations = this.client.expirer.values.filter(
+      ({ id, topic: expirationTopic }) =>
+        expirationTopic === topic &&
+        !isUndefined(id) &&
+        !this.client.pendingRequest.keys.includes(id),
+    );
+    this.liveness.delete(topic);
+    this.autoExtensions.delete(topic);
     await Promise.all([
+      ...requests.map(({ id }) => this.deletePendingRequest(id)),
+      ...requestExpirations.map(({ id }) => this.client.expirer.del(String(id))),
       this.client.core.relayer.unsubscribe(topic),
-      this.client.session.delete(topic, ERROR.DELETED.format()),
-      this.client.core.crypto.deleteKeyPair(self.publicKey),
+      this.client.session.delete(topic, reason),
+      this.client.core.crypto.deleteKeyPair(session.self.publicKey),
       this.client.core.crypto.deleteSymKey(topic),
       this.client.expirer.del(topic),
+      this.client.expirer.del(autoExtendTag(topic)),
     ]);
+    this.client.events.emit("session_deleted", { session, reason });
   };
 
-  private deletePairing: EnginePrivate["deleteSession"] = async topic => {
+  private deletePairing: EnginePrivate["deletePairing"] = async (
+    topic,
+    reason = ERROR.DELETED.format({ context: "pairing" }),
+    notify = false,
+  ) => {
+    if (this.client.opts?.cascadePairingDelete) await this.deletePairingDependents(topic, reason);
+    // sent with the same reason, as a cascading peer may delete the sessions on receiving it
+    if (notify) await this.sendRequest(topic, "wc_pairingDelete", reason);
     await Promise.all([
       this.client.core.relayer.unsubscribe(topic),
-      this.client.pairing.delete(topic, ERROR.DELETED.format()),
+      this.client.pairing.delete(topic, reason),
       this.client.core.crypto.deleteSymKey(topic),
       this.client.expirer.del(topic),
     ]);
   };
 
+  private deletePairingDependents: EnginePrivate["deletePairingDependents"] = async (
+    topic,
+    reason,
+  ) => {
+    const sessions = this.client.session.values.filter(session => session.pairingTopic === topic);
+    const proposals = this.client.proposal.values.filter(
+      proposal => proposal.pairingTopic === topic,
+    );
+    await Promise.all([
+      ...sessions.map(async session => {
+        // peers are told on every cascade, expiry included, so their sessions do not linger
+        try {
+          await this.sendRequest(session.topic, "wc_sessionDelete", reason);
+        } catch (error) {
+          this.client.logger.error(error);
+        }
+        await this.deleteSession(session.topic, reason);
+      }),
+      ...proposals.map(({ id }) => this.cancelProposal(id, reason)),
+    ]);
+  };
+
+  private cancelProposal: EnginePrivate["cancelProposal"] = async (id, reason) => {
+    const { proposer } = this.client.proposal.get(id);
+    // Only the proposing side holds the generated key pair and a pending approval
+    if (this.client.core.crypto.hasKeys(proposer.publicKey)) {
+      await this.client.core.crypto.deleteKeyPair(proposer.publicKey);
+      this.events.emit(engineEvent("session_connect", id), { error: reason });
+    }
+    await this.deleteProposal(id);
+  };
+
+  private deleteProposal: EnginePrivate["deleteProposal"] = async id => {
+    await Promise.all([
+      this.client.proposal.delete(id, ERROR.DELETED.format()),
+      this.client.expirer.del(id.toString()),
+    ]);
+  };
+
+  private deletePendingRequest: EnginePrivate["deletePendingRequest"] = async id => {
+    await Promise.all([
+      this.client.pendingRequest.delete(id, ERROR.DELETED.format()),
+      this.client.expirer.del(id.toString()),
+    ]);
+  };
+
   private setExpiry: EnginePrivate["setExpiry"] = async (topic, expiry) => {
     if (this.client.pairing.keys.includes(topic)) {
       await this.client.pairing.update(topic, { expiry });
     } else if (this.client.session.keys.includes(topic)) {
       await this.client.session.update(topic, { expiry });
+      this.setAutoExtendExpiry(topic);
     }
     this.client.expirer.set(topic, { topic, expiry });
   };
 
+  private setProposalExpiry: EnginePrivate["setProposalExpiry"] = (id, topic, expiry) => {
+    this.client.expirer.set(id.toString(), { id, topic, expiry });
+  };
+
+  private setRequestExpiry: EnginePrivate["setRequestExpiry"] = (id, topic, expiry) => {
+    this.client.expirer.set(id.toString(), { id, topic, expiry });
+  };
+
+  // checks are due once the session enters the threshold, no sooner than the retry interval
+  private setAutoExtendExpiry: EnginePrivate["setAutoExtendExpiry"] = topic => {
+    if (!this.client.opts?.autoExtend) return;
+    const { controller, self, expiry, acknowledged } = this.client.session.get(topic);
+    if (controller !== self.publicKey || !acknowledged) return;
+    const { threshold } = { ...SESSION_AUTO_EXTEND_DEFAULT, ...this.client.opts.autoExtend };
+    const checkedAt = this.autoExtensions.get(topic);
+    const retryAt = isUndefined(checkedAt)
+      ? 0
+      : fromMiliseconds(checkedAt) + SESSION_AUTO_EXTEND_RETRY_INTERVAL;
+    this.client.expirer.set(autoExtendTag(topic), {
+      topic,
+      expiry: Math.max(expiry - threshold, retryAt),
+      autoExtend: true,
+    });
+  };
+
+  private migrateSession: EnginePrivate["migrateSession"] = async (
+    topic,
+    newTopic,
+    selfPublicKey,
+    peerPublicKey,
+  ) => {
+    const session = this.client.session.get(topic);
+    const isController = session.controller === session.self.publicKey;
+    const migrated = {
+      ...session,
+      topic: newTopic,
+      controller: isController ? selfPublicKey : peerPublicKey,
+      self: { ...session.self, publicKey: selfPublicKey },
+      peer: { ...session.peer, publicKey: peerPublicKey },
+    };
+    const requests = this.client.pendingRequest.values.filter(request => request.topic === topic);
+    const requestExpirations = this.client.expirer.values.filter(
+      expiration => expiration.topic === topic && !isUndefined(expiration.id),
+    );
+    await this.client.session.set(newTopic, migrated);
+    await this.setExpiry(newTopic, session.expiry);
+    await Promise.all(
+      requests.map(({ id }) => this.client.pendingRequest.update(id, { topic: newTopic })),
+    );
+    requestExpirations.forEach(({ id, expiry }) => {
+      if (!isUndefined(id)) this.setRequestExpiry(id, newTopic, expiry);
+    });
+    this.client.history.move(topic, newTopic);
+    // the previous symKey is kept until the grace period expires
+    this.client.expirer.set(topic, {
+      topic,
+      expiry: calcExpiry(ENGINE_REKEY_GRACE),
+      rekeyedTopic: newTopic,
+    });
+    this.liveness.delete(topic);
+    this.autoExtensions.delete(topic);
+    await this.client.expirer.del(autoExtendTag(topic));
+    await this.client.session.delete(topic, ERROR.DELETED.format({ context: "session" }));
+    await this.client.core.crypto.deleteKeyPair(session.self.publicKey);
+    this.client.events.emit("session_rekey", { topic: newTopic, previousTopic: topic });
+
+    return migrated;
+  };
+
+  // messages still arriving on a rekeyed session's previous topic belong to its new one
+  private getRekeyedTopic: EnginePrivate["getRekeyedTopic"] = topic => {
+    if (!this.client.expirer.has(topic)) return topic;
+    return this.client.expirer.get(topic).rekeyedTopic || topic;
+  };
+
+  private retireTopic: EnginePrivate["retireTopic"] = async topic => {
+    await Promise.all([
+      this.client.core.relayer.unsubscribe(topic),
+      this.client.core.crypto.deleteSymKey(topic),
+      this.client.expirer.del(topic),
+    ]);
+  };
+
+  private setSessionActivity: EnginePrivate["setSessionActivity"] = async (topic, method) => {
+    if (!this.client.session.keys.includes(topic)) return;
+    if (method && ENGINE_IDLE_METHODS.includes(method)) return;
+    const lastActivity = fromMiliseconds(Date.now());
+    if (this.client.session.get(topic).lastActivity === lastActivity) return;
+    await this.client.session.update(topic, { lastActivity });
+  };
+
+  // picks the first of the peer's compression algorithms this client supports too
+  private negotiateCompression: EnginePrivate["negotiateCompression"] = compression => {
+    const supported = this.client.core.crypto.getSupportedCompression();
+    return compression?.find(algorithm => supported.includes(algorithm));
+  };
+
+  private getCompression: EnginePrivate["getCompression"] = topic => {
+    if (!this.client.session.keys.includes(topic)) return;
+    return this.client.session.get(topic).compression;
+  };
+
+  // type 1 envelopes on a session topic go from the peer's session key to this client's
+  private getEnvelopeKeys: EnginePrivate["getEnvelopeKeys"] = topic => {
+    if (!this.client.session.keys.includes(topic)) return {};
+    const { self, peer } = this.client.session.get(topic);
+    return { receiverPublicKey: self.publicKey, senderPublicKey: peer.publicKey };
+  };
+
   private sendRequest: EnginePrivate["sendRequest"] = async (topic, method, params) => {
     const payload = formatJsonRpcRequest(method, params);
-    const message = this.client.core.crypto.encode(topic, payload);
+    const message = this.client.core.crypto.encode(topic, payload, {
+      compression: this.getCompression(topic),
+    });
     await this.client.core.relayer.publish(topic, message);
     this.client.history.set(topic, payload);
+    await this.setSessionActivity(topic, method);
 
     return payload.id;
   };
 
   private sendResult: EnginePrivate["sendResult"] = async (id, topic, result) => {
     const payload = formatJsonRpcResult(id, result);
-    const message = this.client.core.crypto.encode(topic, payload);
+    const message = this.client.core.crypto.encode(topic, payload, {
+      compression: this.getCompression(topic),
+    });
     await this.client.core.relayer.publish(topic, message);
     await this.client.history.resolve(payload);
+    await this.setSessionActivity(topic, this.client.history.records.get(id)?.request.method);
   };
 
   private sendError: EnginePrivate["sendError"] = async (id, topic, error) => {
     const payload = formatJsonRpcError(id, error);
-    const message = this.client.core.crypto.encode(topic, payload);
+    const message = this.client.core.crypto.encode(topic, payload, {
+      compression: this.getCompression(topic),
+    });
     await this.client.core.relayer.publish(topic, message);
     await this.client.history.resolve(payload);
+    await this.setSessionActivity(topic, this.client.history.records.get(id)?.request.method);
+  };
+
+  private sendResponse: EnginePrivate["sendResponse"] = async (id, topic, response) => {
+    if (isJsonRpcResult(response)) {
+      await this.sendResult(id, topic, response.result);
+    } else if (isJsonRpcError(response)) {
+      await this.sendError(id, topic, response.error);
+    }
+  };
+
+  private expireRequest: EnginePrivate["expireRequest"] = async (id, reason) => {
+    const record = this.client.history.records.get(id);
+    if (record && !isUndefined(record.response)) return;
+    await this.client.expirer.del(id.toString());
+    // Only the responder may answer the id, the peer drops the request on its own expiry
+    await this.client.history.resolve(formatJsonRpcError(id, reason));
   };
 
   private cleanup: EnginePrivate["cleanup"] = async () => {
@@ -395,10 +786,17 @@ export class Engine extends IEngine {
     this.client.pairing.values.forEach(pairing => {
       if (isExpired(pairing.expiry)) pairingTopics.push(pairing.topic);
     });
+    const reason = ERROR.EXPIRED.format({ context: "session" });
     await Promise.all([
-      ...sessionTopics.map(this.deleteSession),
-      ...pairingTopics.map(this.deletePairing),
+      ...sessionTopics.map(topic => this.deleteSession(topic, reason)),
+      ...pairingTopics.map(topic =>
+        this.deletePairing(topic, ERROR.EXPIRED.format({ context: "pairing" })),
+      ),
     ]);
+    const orphanedRequests = this.client.pendingRequest.values.filter(
+      request => !this.client.session.keys.includes(request.topic),
+    );
+    await Promise.all(orphanedRequests.map(({ id }) => this.deletePendingRequest(id)));
   };
 
   private isInitialized() {
@@ -411,8 +809,24 @@ export class Engine extends IEngine {
     this.client.core.relayer.on(
       RELAYER_EVENTS.message,
       async (event: RelayerTypes.MessageEvent) => {
-        const { topic, message } = event;
-        const payload = this.client.core.crypto.decode(topic, message);
+        const { message } = event;
+        const topic = this.getRekeyedTopic(event.topic);
+        let payload: JsonRpcPayload;
+        try {
+          payload = this.client.core.crypto.decode(event.topic, message, {
+            ...this.getEnvelopeKeys(topic),
+            compression: this.getCompression(topic),
+          });
+        } catch (error) {
+          this.client.logger.error({ topic: event.topic, error }, "Failed to decode message");
+          return;
+        }
+        await this.setSessionActivity(
+          topic,
+          isJsonRpcRequest(payload)
+            ? payload.method
+            : this.client.history.records.get(payload.id)?.request.method,
+        );
         if (isJsonRpcRequest(payload)) {
           this.client.history.set(topic, payload);
           this.onRelayEventRequest({ topic, payload });
@@ -437,6 +851,8 @@ export class Engine extends IEngine {
         return this.onSessionUpdateRequest(topic, payload);
       case "wc_sessionExtend":
         return this.onSessionExtendRequest(topic, payload);
+      case "wc_sessionRekey":
+        return this.onSessionRekeyRequest(topic, payload);
       case "wc_sessionPing":
         return this.onSessionPingRequest(topic, payload);
       case "wc_pairingPing":
@@ -450,8 +866,8 @@ export class Engine extends IEngine {
       case "wc_sessionEvent":
         return this.onSessionEventRequest(topic, payload);
       default:
-        // TODO(ilja) throw / log unsuported event?
-        return;
+        if (this.customMethods.has(reqMethod)) return this.onCustomRequest(topic, payload);
+        return this.onUnknownRequest(topic, payload);
     }
   };
 
@@ -469,6 +885,8 @@ export class Engine extends IEngine {
         return this.onSessionUpdateResponse(topic, payload);
       case "wc_sessionExtend":
         return this.onSessionExtendResponse(topic, payload);
+      case "wc_sessionRekey":
+        return this.onSessionRekeyResponse(topic, payload);
       case "wc_sessionPing":
         return this.onSessionPingResponse(topic, payload);
       case "wc_pairingPing":
@@ -476,6 +894,7 @@ export class Engine extends IEngine {
       case "wc_sessionRequest":
         return this.onSessionRequestResponse(topic, payload);
       default:
+        if (this.customMethods.has(resMethod)) return this.onCustomResponse(topic, payload);
         // TODO(ilja) throw / log unsuported event?
         return;
     }
@@ -489,9 +908,13 @@ export class Engine extends IEngine {
   ) => {
     const { params, id } = payload;
     try {
-      this.isValidConnect({ ...payload.params });
-      const proposal = { id, pairingTopic: topic, ...params };
+      await this.isValidConnect({ ...payload.params });
+      this.isValidMetadata(params.proposer.metadata, "proposer");
+      const expiry = calcExpiry(this.client.ttl.proposal);
+      const proposal = { id, pairingTopic: topic, expiry, ...params };
       await this.client.proposal.set(id, proposal);
+      this.setProposalExpiry(id, topic, expiry);
+      await this.setPairingMetadata(topic, params.proposer.metadata);
       this.client.events.emit("session_proposal", { id, params: proposal });
     } catch (err) {
       await this.sendError(id, topic, err);
@@ -530,6 +953,8 @@ export class Engine extends IEngine {
         method: "onSessionProposeResponse",
         sessionTopic,
       });
+      // kept on the proposal so a settle arriving early or after a restart still finds it
+      await this.client.proposal.update(id, { sessionTopic });
       const subscriptionId = await this.client.core.relayer.subscribe(sessionTopic);
       this.client.logger.trace({
         type: "method",
@@ -538,8 +963,10 @@ export class Engine extends IEngine {
       });
       await this.activatePairing(topic);
     } else if (isJsonRpcError(payload)) {
-      await this.client.proposal.delete(id, ERROR.DELETED.format());
-      this.events.emit(engineEvent("session_connect"), { error: payload.error });
+      const { proposer } = this.client.proposal.get(id);
+      await this.client.core.crypto.deleteKeyPair(proposer.publicKey);
+      await this.deleteProposal(id);
+      this.events.emit(engineEvent("session_connect", id), { error: payload.error });
     }
   };
 
@@ -549,17 +976,38 @@ export class Engine extends IEngine {
   ) => {
     const { id, params } = payload;
     try {
-      this.isValidApprove({ id, ...params });
-      const { relay, controller, expiry, namespaces } = payload.params;
+      this.isValidSessionSettleRequest(params);
+      this.isValidMetadata(params.controller.metadata, "controller");
+      const proposal = this.client.proposal.values.find(
+        ({ sessionTopic }) => sessionTopic === topic,
+      );
+      if (!proposal) throw ERROR.NO_MATCHING_TOPIC.format({ context: "proposal", topic });
+      const { id: proposalId, proposer, pairingTopic, requiredNamespaces } = proposal;
+      const { relay, controller, expiry, namespaces, compression } = payload.params;
+      const diff = getNamespacesConformanceDiff(namespaces, requiredNamespaces);
+      if (Object.keys(diff).length) {
+        const reason = ERROR.NON_CONFORMING_NAMESPACES.format({ context: "settle", diff });
+        // the session is never settled, so the approval fails right away
+        await this.sendError(id, topic, reason);
+        await Promise.all([
+          this.client.core.relayer.unsubscribe(topic),
+          this.client.core.crypto.deleteSymKey(topic),
+        ]);
+        return await this.cancelProposal(proposalId, reason);
+      }
       const session = {
         topic,
+        pairingTopic,
         relay,
         expiry,
         namespaces,
         acknowledged: true,
         controller: controller.publicKey,
+        compression: this.negotiateCompression(compression ? [compression] : undefined),
+        createdAt: fromMiliseconds(Date.now()),
+        lastActivity: fromMiliseconds(Date.now()),
         self: {
-          publicKey: "",
+          publicKey: proposer.publicKey,
           metadata: this.client.metadata,
         },
         peer: {
@@ -567,8 +1015,13 @@ export class Engine extends IEngine {
           metadata: controller.metadata,
         },
       };
+      await this.client.session.set(topic, session);
+      await this.setExpiry(topic, expiry);
       await this.sendResult<"wc_sessionSettle">(payload.id, topic, true);
-      this.events.emit(engineEvent("session_connect"), { session });
+      if (pairingTopic) await this.setPairingMetadata(pairingTopic, controller.metadata);
+      await this.deleteProposal(proposalId);
+      this.client.events.emit("session_created", { session });
+      this.events.emit(engineEvent("session_connect", proposalId), { session });
     } catch (err) {
       await this.sendError(id, topic, err);
       this.client.logger.error(err);
@@ -582,6 +1035,8 @@ export class Engine extends IEngine {
     const { id } = payload;
     if (isJsonRpcResult(payload)) {
       await this.client.session.update(topic, { acknowledged: true });
+      this.setAutoExtendExpiry(topic);
+      this.client.events.emit("session_created", { session: this.client.session.get(topic) });
       this.events.emit(engineEvent("session_approve", id), {});
     } else if (isJsonRpcError(payload)) {
       await this.client.session.delete(topic, ERROR.DELETED.format());
@@ -595,10 +1050,12 @@ export class Engine extends IEngine {
   ) => {
     const { params, id } = payload;
     try {
-      this.isValidUpdate({ topic, ...params });
+      await this.isValidUpdate({ topic, ...params });
+      const diff = getNamespacesDiff(this.client.session.get(topic).namespaces, params.namespaces);
       await this.client.session.update(topic, { namespaces: params.namespaces });
       await this.sendResult<"wc_sessionUpdate">(id, topic, true);
-      this.client.events.emit("session_update", { id, topic, params });
+      this.client.events.emit("session_update", { id, topic, params: { ...params, ...diff } });
+      this.client.events.emit("session_updated", { session: this.client.session.get(topic) });
     } catch (err) {
       await this.sendError(id, topic, err);
       this.client.logger.error(err);
@@ -618,10 +1075,14 @@ export class Engine extends IEngine {
     topic,
     payload,
   ) => {
-    const { id } = payload;
+    const { id, params } = payload;
     try {
-      this.isValidExtend({ topic });
-      await this.setExpiry(topic, SESSION_EXPIRY);
+      await this.isValidExtend({ topic });
+      // Older peers don't send an expiry and leave it up to us
+      const { expiry = calcExpiry(this.client.ttl.session) } = params;
+      if (!this.isValidSessionExpiry(expiry))
+        throw ERROR.MISSING_OR_INVALID.format({ name: "extend expiry" });
+      await this.setExpiry(topic, expiry);
       await this.sendResult<"wc_sessionExtend">(id, topic, true);
       this.client.events.emit("session_extend", { id, topic });
     } catch (err) {
@@ -639,10 +1100,63 @@ export class Engine extends IEngine {
     }
   };
 
+  private onSessionRekeyRequest: EnginePrivate["onSessionRekeyRequest"] = async (
+    topic,
+    payload,
+  ) => {
+    const { id, params } = payload;
+    try {
+      await this.isValidRekey({ topic });
+      if (!isValidString(params.publicKey, false))
+        throw ERROR.MISSING_OR_INVALID.format({ name: "rekey publicKey" });
+      const selfPublicKey = await this.client.core.crypto.generateKeyPair();
+      const newTopic = await this.client.core.crypto.generateSharedKey(
+        selfPublicKey,
+        params.publicKey,
+      );
+      await this.client.core.relayer.subscribe(newTopic);
+      try {
+        await this.sendResult<"wc_sessionRekey">(id, topic, { publicKey: selfPublicKey });
+      } catch (err) {
+        // the peer never learned the new key, so the session stays on its current topic
+        await this.retireTopic(newTopic);
+        await this.client.core.crypto.deleteKeyPair(selfPublicKey);
+        throw err;
+      }
+      await this.migrateSession(topic, newTopic, selfPublicKey, params.publicKey);
+    } catch (err) {
+      await this.sendError(id, topic, err);
+      this.client.logger.error(err);
+    }
+  };
+
+  private onSessionRekeyResponse: EnginePrivate["onSessionRekeyResponse"] = async (
+    topic,
+    payload,
+  ) => {
+    const { id } = payload;
+    if (isJsonRpcResult(payload)) {
+      const { request } = await this.client.history.get(topic, id);
+      const selfPublicKey = request.params.publicKey;
+      // the rekey was given up on and its key pair deleted
+      if (!this.client.core.crypto.hasKeys(selfPublicKey)) return;
+      const peerPublicKey = payload.result.publicKey;
+      const newTopic = await this.client.core.crypto.generateSharedKey(
+        selfPublicKey,
+        peerPublicKey,
+      );
+      await this.client.core.relayer.subscribe(newTopic);
+      const session = await this.migrateSession(topic, newTopic, selfPublicKey, peerPublicKey);
+      this.events.emit(engineEvent("session_rekey", id), { session });
+    } else if (isJsonRpcError(payload)) {
+      this.events.emit(engineEvent("session_rekey", id), { error: payload.error });
+    }
+  };
+
   private onSessionPingRequest: EnginePrivate["onSessionPingRequest"] = async (topic, payload) => {
     const { id } = payload;
     try {
-      this.isValidPing({ topic });
+      await this.isValidPing({ topic });
       await this.sendResult<"wc_sessionPing">(id, topic, true);
       this.client.events.emit("session_ping", { id, topic });
     } catch (err) {
@@ -663,7 +1177,7 @@ export class Engine extends IEngine {
   private onPairingPingRequest: EnginePrivate["onPairingPingRequest"] = async (topic, payload) => {
     const { id } = payload;
     try {
-      this.isValidPing({ topic });
+      await this.isValidPing({ topic });
       await this.sendResult<"wc_pairingPing">(id, topic, true);
       this.client.events.emit("pairing_ping", { id, topic });
     } catch (err) {
@@ -687,10 +1201,10 @@ export class Engine extends IEngine {
   ) => {
     const { id } = payload;
     try {
-      this.isValidDisconnect({ topic, reason: payload.params });
+      await this.isValidDisconnect({ topic, reason: payload.params });
       // RPC request needs to happen before deletion as it utalises session encryption
       await this.sendResult<"wc_sessionDelete">(id, topic, true);
-      await this.deleteSession(topic);
+      await this.deleteSession(topic, payload.params);
       this.client.events.emit("session_delete", { id, topic });
     } catch (err) {
       await this.sendError(id, topic, err);
@@ -704,10 +1218,10 @@ export class Engine extends IEngine {
   ) => {
     const { id } = payload;
     try {
-      this.isValidDisconnect({ topic, reason: payload.params });
+      await this.isValidDisconnect({ topic, reason: payload.params });
       // RPC request needs to happen before deletion as it utalises pairing encryption
       await this.sendResult<"wc_pairingDelete">(id, topic, true);
-      await this.deletePairing(topic);
+      await this.deletePairing(topic, payload.params);
       this.client.events.emit("pairing_delete", { id, topic });
     } catch (err) {
       await this.sendError(id, topic, err);
@@ -716,9 +1230,28 @@ export class Engine extends IEngine {
   };
 
   private onSessionRequest: EnginePrivate["onSessionRequest"] = async (topic, payload) => {
-    const { id, params } = payload;
+    const { id } = payload;
     try {
-      this.isValidRequest({ topic, ...params });
+      await this.isAuthorizedRequest({ topic, ...payload.params });
+      const session = this.client.session.get(topic);
+      const { params, response } = await this.runSessionRequestMiddlewares({
+        id,
+        topic,
+        params: payload.params,
+        session,
+      });
+      if (response) return await this.sendResponse(id, topic, response);
+      if (params.expiry) {
+        if (isExpired(params.expiry)) throw ERROR.EXPIRED.format({ context: "request" });
+        this.setRequestExpiry(id, topic, params.expiry + ENGINE_REQUEST_EXPIRY_GRACE);
+      }
+      await this.client.pendingRequest.set(id, {
+        id,
+        topic,
+        params,
+        peerMetadata: session.peer.metadata,
+        receivedAt: fromMiliseconds(Date.now()),
+      });
       this.client.events.emit("session_request", { id, topic, params });
     } catch (err) {
       await this.sendError(id, topic, err);
@@ -726,11 +1259,24 @@ export class Engine extends IEngine {
     }
   };
 
-  private onSessionRequestResponse: EnginePrivate["onSessionRequestResponse"] = (
+  private runSessionRequestMiddlewares: EnginePrivate["runSessionRequestMiddlewares"] = async args => {
+    let { params } = args;
+    for (const { method, middleware } of this.middlewares) {
+      if (method !== ENGINE_MIDDLEWARE_WILDCARD && method !== params.request.method) continue;
+      const outcome = await middleware({ ...args, params });
+      if (!outcome) continue;
+      if (outcome.type === "response") return { params, response: outcome.response };
+      params = outcome.params;
+    }
+    return { params };
+  };
+
+  private onSessionRequestResponse: EnginePrivate["onSessionRequestResponse"] = async (
     _topic,
     payload,
   ) => {
     const { id } = payload;
+    await this.deletePendingRequest(id);
     if (isJsonRpcResult(payload)) {
       this.events.emit(engineEvent("session_request", id), { result: payload.result });
     } else if (isJsonRpcError(payload)) {
@@ -744,7 +1290,7 @@ export class Engine extends IEngine {
   ) => {
     const { id, params } = payload;
     try {
-      this.isValidEmit({ topic, ...params });
+      await this.isAuthorizedEmit({ topic, ...params });
       this.client.events.emit("session_event", { id, topic, params });
     } catch (err) {
       await this.sendError(id, topic, err);
@@ -752,21 +1298,170 @@ export class Engine extends IEngine {
     }
   };
 
+  private onUnknownRequest: EnginePrivate["onUnknownRequest"] = async (topic, payload) => {
+    const { id, method } = payload;
+    const error = ERROR.UNKNOWN_JSONRPC_METHOD.format({ method });
+    await this.sendError(id, topic, error);
+    this.client.logger.error(error);
+  };
+
+  private onCustomRequest: EnginePrivate["onCustomRequest"] = async (topic, payload) => {
+    const { id, method, params } = payload;
+    const handler = this.customMethods.get(method);
+    try {
+      if (!handler) throw ERROR.UNKNOWN_JSONRPC_METHOD.format({ method });
+      await handler.isValidRequest?.({ id, topic, params });
+      const result = await handler.onRequest({ id, topic, params });
+      await this.sendResult(id, topic, result);
+    } catch (err) {
+      await this.sendError(id, topic, err);
+      this.client.logger.error(err);
+    }
+  };
+
+  private onCustomResponse: EnginePrivate["onCustomResponse"] = async (topic, payload) => {
+    const { id } = payload;
+    const { request } = await this.client.history.get(topic, id);
+    const handler = this.customMethods.get(request.method);
+    if (isJsonRpcResult(payload)) {
+      handler?.onResponse?.({ id, topic, result: payload.result });
+      this.events.emit(engineEvent("custom_request", id), { result: payload.result });
+    } else if (isJsonRpcError(payload)) {
+      handler?.onResponse?.({ id, topic, error: payload.error });
+      this.events.emit(engineEvent("custom_request", id), { error: payload.error });
+    }
+  };
+
   // ---------- Expirer Events ----------------------------------------- //
 
   private registerExpirerEvents() {
-    this.client.expirer.on(EXPIRER_EVENTS.expired, async (event: ExpirerTypes.Expiration) => {
-      const { topic } = event;
-      if (this.client.session.keys.includes(topic)) {
-        await this.deleteSession(topic);
+    this.client.expirer.on(EXPIRER_EVENTS.expired, async (event: ExpirerTypes.Expired) => {
+      const { topic, expiration } = event;
+      if (expiration.autoExtend) {
+        await this.checkAutoExtension(expiration.topic);
+      } else if (!isUndefined(expiration.id)) {
+        const { id } = expiration;
+        if (!this.client.proposal.keys.includes(id)) {
+          return await this.onRequestExpire(id, expiration.topic);
+        }
+        await this.cancelProposal(id, ERROR.EXPIRED.format({ context: "proposal" }));
+        this.client.events.emit("proposal_expire", { id });
+      } else if (this.client.session.keys.includes(topic)) {
+        await this.deleteSession(topic, ERROR.EXPIRED.format({ context: "session" }));
         this.client.events.emit("session_expire", { topic });
       } else if (this.client.pairing.keys.includes(topic)) {
-        await this.deletePairing(topic);
+        await this.deletePairing(topic, ERROR.EXPIRED.format({ context: "pairing" }));
         this.client.events.emit("pairing_expire", { topic });
+      } else if (!isUndefined(expiration.rekeyedTopic)) {
+        // grace period of a rekeyed session's previous topic is over
+        await this.retireTopic(topic);
       }
     });
   }
 
+  private onRequestExpire: EnginePrivate["onRequestExpire"] = async (id, topic) => {
+    const reason = ERROR.EXPIRED.format({ context: "request" });
+    if (this.client.pendingRequest.keys.includes(id)) {
+      // the requester expires it on its side too, we only drop it and mark it in history
+      await this.deletePendingRequest(id);
+      await this.client.history.resolve(formatJsonRpcError(id, reason));
+    } else {
+      const record = this.client.history.records.get(id);
+      if (!record || !isUndefined(record.response)) return;
+      // requests still awaited in request() time out on their own
+      if (this.events.listenerCount(engineEvent("session_request", id))) return;
+      await this.expireRequest(id, reason);
+    }
+    this.client.events.emit("request_expire", { id, topic });
+  };
+
+  // ---------- Liveness Monitor ---------------------------------------- //
+
+  private registerLivenessMonitor() {
+    if (!this.client.opts?.liveness) return;
+    this.client.core.heartbeat.on(HEARTBEAT_EVENTS.pulse, () => this.checkLiveness());
+  }
+
+  private checkLiveness: EnginePrivate["checkLiveness"] = async () => {
+    const { interval, timeout } = { ...ENGINE_LIVENESS_DEFAULT, ...this.client.opts?.liveness };
+    const topics = this.client.session.keys.filter(topic => {
+      const state = this.liveness.get(topic);
+      if (!state) return true;
+      return !state.pending && Date.now() - state.checkedAt >= toMiliseconds(interval);
+    });
+    await Promise.all(topics.map(topic => this.checkSessionLiveness(topic, timeout)));
+  };
+
+  private checkSessionLiveness: EnginePrivate["checkSessionLiveness"] = async (topic, timeout) => {
+    const previous = this.liveness.get(topic);
+    const checkedAt = Date.now();
+    this.liveness.set(topic, { ...previous, checkedAt, pending: true });
+    const { done, resolve, reject } = createDelayedPromise<void>(timeout);
+    const onPing = ({ error }: EngineTypes.EventArguments["session_ping"]) => {
+      if (error) reject(error);
+      else resolve();
+    };
+    let event: string | undefined;
+    let reachable = true;
+    try {
+      const id = await this.sendRequest(topic, "wc_sessionPing", {});
+      event = engineEvent("session_ping", id);
+      this.events.once(event, onPing);
+      await done();
+    } catch (err) {
+      reachable = false;
+    } finally {
+      if (event) this.events.removeListener(event, onPing);
+    }
+    if (!this.client.session.keys.includes(topic)) return;
+    this.liveness.set(topic, { checkedAt, pending: false, reachable });
+    if (reachable === previous?.reachable) return;
+    if (reachable) {
+      const latency = Date.now() - checkedAt;
+      this.client.events.emit("session_peer_reachable", { topic, latency });
+    } else {
+      this.client.events.emit("session_peer_unreachable", { topic });
+    }
+  };
+
+  // ---------- Auto Extension ------------------------------------------ //
+
+  private registerAutoExtension() {
+    if (!this.client.opts?.autoExtend) return;
+    this.client.session.keys.forEach(topic => this.setAutoExtendExpiry(topic));
+  }
+
+  private checkAutoExtension: EnginePrivate["checkAutoExtension"] = async topic => {
+    if (!this.client.opts?.autoExtend || !this.client.session.keys.includes(topic)) return;
+    const { activity, ttl } = {
+      ...SESSION_AUTO_EXTEND_DEFAULT,
+      ttl: this.client.ttl.session,
+      ...this.client.opts.autoExtend,
+    };
+    const { controller, self, lastActivity } = this.client.session.get(topic);
+    if (controller !== self.publicKey) return;
+    this.autoExtensions.set(topic, Date.now());
+    const now = fromMiliseconds(Date.now());
+    if (isUndefined(lastActivity) || now - lastActivity > activity) {
+      return this.setAutoExtendExpiry(topic);
+    }
+    await this.autoExtendSession(topic, ttl);
+  };
+
+  private autoExtendSession: EnginePrivate["autoExtendSession"] = async (topic, ttl) => {
+    this.client.events.emit("session_auto_extend", { topic, ttl });
+    try {
+      const { acknowledged } = await this.extend({ topic, ttl });
+      await acknowledged();
+    } catch (error) {
+      this.client.events.emit("session_auto_extend_failure", {
+        topic,
+        error: error as ErrorResponse,
+      });
+      if (this.client.session.keys.includes(topic)) this.setAutoExtendExpiry(topic);
+    }
+  };
+
   // ---------- Validation ---------------------------------------------- //
   private async isValidPairingTopic(topic: string) {
     if (!isValidString(topic, false))
@@ -774,7 +1469,7 @@ export class Engine extends IEngine {
     if (!this.client.pairing.keys.includes(topic))
       throw ERROR.NO_MATCHING_TOPIC.format({ context: "pairing", topic });
     if (isExpired(this.client.pairing.get(topic).expiry)) {
-      await this.deletePairing(topic);
+      await this.deletePairing(topic, ERROR.EXPIRED.format({ context: "pairing" }));
       throw ERROR.EXPIRED.format({ context: "pairing", topic });
     }
   }
@@ -785,7 +1480,7 @@ export class Engine extends IEngine {
     if (!this.client.session.keys.includes(topic))
       throw ERROR.NO_MATCHING_TOPIC.format({ context: "session", topic });
     if (isExpired(this.client.session.get(topic).expiry)) {
-      await this.deleteSession(topic);
+      await this.deleteSession(topic, ERROR.EXPIRED.format({ context: "session" }));
       throw ERROR.EXPIRED.format({ context: "session", topic });
     }
   }
@@ -798,14 +1493,21 @@ export class Engine extends IEngine {
 
   private isValidConnect: EnginePrivate["isValidConnect"] = async params => {
     if (!isValidParams(params)) throw ERROR.MISSING_OR_INVALID.format({ name: "connect params" });
-    const { pairingTopic, requiredNamespaces, relays } = params;
+    const { pairingTopic, requiredNamespaces, optionalNamespaces, relays } = params;
     if (!isUndefined(pairingTopic)) await this.isValidPairingTopic(pairingTopic);
     if (!isValidRequiredNamespaces(requiredNamespaces, false))
       throw ERROR.MISSING_OR_INVALID.format({ name: "connect requiredNamespaces" });
+    if (!isValidRequiredNamespaces(optionalNamespaces, true))
+      throw ERROR.MISSING_OR_INVALID.format({ name: "connect optionalNamespaces" });
     if (!isValidRelays(relays, true))
       throw ERROR.MISSING_OR_INVALID.format({ name: "connect relays" });
   };
 
+  private isValidMetadata: EnginePrivate["isValidMetadata"] = (metadata, context) => {
+    if (!isValidRedirect(metadata?.redirect, true))
+      throw ERROR.MISSING_OR_INVALID.format({ name: `${context} metadata redirect` });
+  };
+
   private isValidPair: EnginePrivate["isValidPair"] = params => {
     if (!isValidParams(params)) throw ERROR.MISSING_OR_INVALID.format({ name: "pair params" });
     if (!isValidUrl(params.uri)) throw ERROR.MISSING_OR_INVALID.format({ name: "pair uri" });
@@ -813,12 +1515,34 @@ export class Engine extends IEngine {
 
   private isValidApprove: EnginePrivate["isValidApprove"] = params => {
     if (!isValidParams(params)) throw ERROR.MISSING_OR_INVALID.format({ name: "approve params" });
-    const { id, namespaces, relayProtocol } = params;
+    const { id, namespaces, relayProtocol, ttl } = params;
     if (!isValidId(id)) throw ERROR.MISSING_OR_INVALID.format({ name: "approve id" });
     if (!isValidNamespaces(namespaces, false))
       throw ERROR.MISSING_OR_INVALID.format({ name: "approve namespaces" });
     if (!isValidString(relayProtocol, true))
       throw ERROR.MISSING_OR_INVALID.format({ name: "approve relayProtocol" });
+    if (!isUndefined(ttl) && !this.isValidSessionTtl(ttl))
+      throw ERROR.MISSING_OR_INVALID.format({ name: "approve ttl" });
+    if (!this.client.proposal.keys.includes(id))
+      throw ERROR.NO_MATCHING_ID.format({ context: "proposal", id });
+    const { requiredNamespaces, optionalNamespaces } = this.client.proposal.get(id);
+    // Anything beyond the required namespaces must come from the proposed optional ones
+    if (!isValidNamespacesScope(namespaces, requiredNamespaces, optionalNamespaces))
+      throw ERROR.MISSING_OR_INVALID.format({ name: "approve namespaces" });
+    const diff = getNamespacesConformanceDiff(namespaces, requiredNamespaces);
+    if (Object.keys(diff).length)
+      throw ERROR.NON_CONFORMING_NAMESPACES.format({ context: "approve", diff });
+  };
+
+  private isValidSessionSettleRequest: EnginePrivate["isValidSessionSettleRequest"] = params => {
+    if (!isValidParams(params)) throw ERROR.MISSING_OR_INVALID.format({ name: "settle params" });
+    const { relay, namespaces, expiry } = params;
+    if (!relay || !isValidRelay(relay))
+      throw ERROR.MISSING_OR_INVALID.format({ name: "settle relay" });
+    if (!isValidNamespaces(namespaces, false))
+      throw ERROR.MISSING_OR_INVALID.format({ name: "settle namespaces" });
+    if (!this.isValidSessionExpiry(expiry))
+      throw ERROR.MISSING_OR_INVALID.format({ name: "settle expiry" });
   };
 
   private isValidReject: EnginePrivate["isValidReject"] = params => {
@@ -839,13 +1563,21 @@ export class Engine extends IEngine {
 
   private isValidExtend: EnginePrivate["isValidExtend"] = async params => {
     if (!isValidParams(params)) throw ERROR.MISSING_OR_INVALID.format({ name: "extend params" });
+    const { topic, ttl } = params;
+    await this.isValidSessionTopic(topic);
+    if (!isUndefined(ttl) && !this.isValidSessionTtl(ttl))
+      throw ERROR.MISSING_OR_INVALID.format({ name: "extend ttl" });
+  };
+
+  private isValidRekey: EnginePrivate["isValidRekey"] = async params => {
+    if (!isValidParams(params)) throw ERROR.MISSING_OR_INVALID.format({ name: "rekey params" });
     const { topic } = params;
     await this.isValidSessionTopic(topic);
   };
 
   private isValidRequest: EnginePrivate["isValidRequest"] = async params => {
     if (!isValidParams(params)) throw ERROR.MISSING_OR_INVALID.format({ name: "request params" });
-    const { topic, request, chainId } = params;
+    const { topic, request, chainId, expiry } = params;
     await this.isValidSessionTopic(topic);
     const { namespaces } = this.client.session.get(topic);
     if (!isValidNamespacesChainId(namespaces, chainId))
@@ -853,6 +1585,8 @@ export class Engine extends IEngine {
     if (!isValidRequest(request)) throw ERROR.MISSING_OR_INVALID.format({ name: "request method" });
     if (!isValidNamespacesRequest(namespaces, chainId, request.method))
       throw ERROR.MISSING_OR_INVALID.format({ name: "request method" });
+    if (!isValidNumber(expiry, true) || (!isUndefined(expiry) && expiry <= 0))
+      throw ERROR.MISSING_OR_INVALID.format({ name: "request expiry" });
   };
 
   private isValidRespond: EnginePrivate["isValidRespond"] = async params => {
@@ -861,6 +1595,11 @@ export class Engine extends IEngine {
     await this.isValidSessionTopic(topic);
     if (!isValidResponse(response))
       throw ERROR.MISSING_OR_INVALID.format({ name: "respond response" });
+    const record = this.client.history.records.get(response.id);
+    const error =
+      record?.response && "error" in record.response ? record.response.error : undefined;
+    if (error && [ERROR.EXPIRED.code, ERROR.JSONRPC_REQUEST_TIMEOUT.code].includes(error.code))
+      throw ERROR.EXPIRED.format({ context: "request" });
   };
 
   private isValidPing: EnginePrivate["isValidPing"] = async params => {
@@ -869,6 +1608,42 @@ export class Engine extends IEngine {
     await this.isValidSessionOrPairingTopic(topic);
   };
 
+  private isValidQuerySessions: EnginePrivate["isValidQuerySessions"] = params => {
+    if (!isValidParams(params) || typeof params !== "object") {
+      throw ERROR.MISSING_OR_INVALID.format({ name: "querySessions params" });
+    }
+    const { requiredNamespaces, expiry } = params;
+    if (!isUndefined(requiredNamespaces) && !isValidRequiredNamespaces(requiredNamespaces, false)) {
+      throw ERROR.MISSING_OR_INVALID.format({ name: "querySessions requiredNamespaces" });
+    }
+    if (
+      !isUndefined(expiry) &&
+      !(isValidNumber(expiry.from, true) && isValidNumber(expiry.to, true))
+    ) {
+      throw ERROR.MISSING_OR_INVALID.format({ name: "querySessions expiry" });
+    }
+  };
+
+  private isValidUpdatePairing: EnginePrivate["isValidUpdatePairing"] = async params => {
+    if (!isValidParams(params)) {
+      throw ERROR.MISSING_OR_INVALID.format({ name: "updatePairing params" });
+    }
+    const { topic, label } = params;
+    await this.isValidPairingTopic(topic);
+    if (!isValidString(label, false)) {
+      throw ERROR.MISSING_OR_INVALID.format({ name: "updatePairing label" });
+    }
+  };
+
+  private isValidCustomRequest: EnginePrivate["isValidCustomRequest"] = async params => {
+    if (!isValidParams(params)) {
+      throw ERROR.MISSING_OR_INVALID.format({ name: "sendCustomRequest params" });
+    }
+    const { topic, method } = params;
+    await this.isValidSessionOrPairingTopic(topic);
+    if (!this.customMethods.has(method)) throw ERROR.UNKNOWN_JSONRPC_METHOD.format({ method });
+  };
+
   private isValidEmit: EnginePrivate["isValidEmit"] = async params => {
     if (!isValidParams(params)) throw ERROR.MISSING_OR_INVALID.format({ name: "emit params" });
     const { topic, event, chainId } = params;
@@ -881,10 +1656,44 @@ export class Engine extends IEngine {
       throw ERROR.MISSING_OR_INVALID.format({ name: "emit event" });
   };
 
+  // Requests and events from the peer have to stay within the approved namespaces
+  private isAuthorizedRequest: EnginePrivate["isAuthorizedRequest"] = async params => {
+    const { topic, request, chainId } = params;
+    await this.isValidSessionTopic(topic);
+    const { namespaces } = this.client.session.get(topic);
+    if (!isValidNamespacesChainId(namespaces, chainId))
+      throw ERROR.UNAUTHORIZED_TARGET_CHAIN.format({ chainId });
+    if (!isValidRequest(request)) throw ERROR.MISSING_OR_INVALID.format({ name: "request method" });
+    if (!isValidNamespacesRequest(namespaces, chainId, request.method))
+      throw ERROR.UNAUTHORIZED_JSON_RPC_METHOD.format({ method: request.method });
+  };
+
+  private isAuthorizedEmit: EnginePrivate["isAuthorizedEmit"] = async params => {
+    const { topic, event, chainId } = params;
+    await this.isValidSessionTopic(topic);
+    const { namespaces } = this.client.session.get(topic);
+    if (!isValidNamespacesChainId(namespaces, chainId))
+      throw ERROR.UNAUTHORIZED_TARGET_CHAIN.format({ chainId });
+    if (!isValidEvent(event)) throw ERROR.MISSING_OR_INVALID.format({ name: "emit event" });
+    if (!isValidNamespacesEvent(namespaces, chainId, event.name))
+      throw ERROR.UNAUTHORIZED_NOTIFICATION_TYPE.format({ type: event.name });
+  };
+
   private isValidDisconnect: EnginePrivate["isValidDisconnect"] = async params => {
     if (!isValidParams(params))
       throw ERROR.MISSING_OR_INVALID.format({ name: "disconnect params" });
     const { topic } = params;
     await this.isValidSessionOrPairingTopic(topic);
   };
+
+  private isValidSessionTtl: EnginePrivate["isValidSessionTtl"] = ttl => {
+    return isValidNumber(ttl, false) && ttl > 0 && ttl <= SESSION_MAX_TTL;
+  };
+
+  // Peers may not settle or extend sessions beyond the protocol maximum
+  private isValidSessionExpiry: EnginePrivate["isValidSessionExpiry"] = expiry => {
+    return (
+      isValidNumber(expiry, false) && !isExpired(expiry) && expiry <= calcExpiry(SESSION_MAX_TTL)
+    );
+  };
 }
@@ -1,8 +1,7 @@
-import { HEARTBEAT_EVENTS } from "@walletconnect/heartbeat";
 import { generateChildLogger, getLoggerContext } from "@walletconnect/logger";
 import { toMiliseconds } from "@walletconnect/time";
 import { ExpirerTypes, ICore, IExpirer } from "@walletconnect/types";
-import { ERROR } from "@walletconnect/utils";
+import { autoExtendTag, ERROR, isUndefined } from "@walletconnect/utils";
 import { EventEmitter } from "events";
 import { Logger } from "pino";
 import {
@@ -10,6 +9,8 @@ import {
   EXPIRER_CONTEXT,
   EXPIRER_EVENTS,
   EXPIRER_STORAGE_VERSION,
+  EXPIRER_DEFAULT_CLOCK,
+  EXPIRER_MAX_TIMEOUT,
 } from "../constants";
 
 export class Expirer extends IExpirer {
@@ -20,26 +21,37 @@ export class Expirer extends IExpirer {
 
   private cached: ExpirerTypes.Expiration[] = [];
   private initialized = false;
+  private timers = new Map<string, unknown>();
+  private warned = new Set<string>();
+  private clock: ExpirerTypes.Clock<unknown>;
 
   private storagePrefix = SIGN_CLIENT_STORAGE_PREFIX;
 
-  constructor(public core: ICore, public logger: Logger) {
-    super(core, logger);
+  constructor(public core: ICore, public logger: Logger, public opts?: ExpirerTypes.Options) {
+    super(core, logger, opts);
     this.core;
     this.logger = generateChildLogger(logger, this.name);
+    this.clock = opts?.clock || EXPIRER_DEFAULT_CLOCK;
   }
 
   public init: IExpirer["init"] = async () => {
     if (!this.initialized) {
       this.logger.trace(`Initialized`);
       await this.restore();
-      this.cached.forEach(expiration => this.expirations.set(expiration.topic, expiration));
+      this.cached.forEach(expiration => this.expirations.set(this.getTag(expiration), expiration));
       this.cached = [];
       this.registerEventListeners();
       this.initialized = true;
     }
   };
 
+  // restored entries are only armed once their listeners are attached, as those that lapsed
+  // while offline expire right away
+  public start: IExpirer["start"] = () => {
+    this.isInitialized();
+    this.topics.forEach(topic => this.schedule(topic));
+  };
+
   get context(): string {
     return getLoggerContext(this.logger);
   }
@@ -73,11 +85,12 @@ export class Expirer extends IExpirer {
   public set: IExpirer["set"] = (topic, expiration) => {
     this.isInitialized();
     this.expirations.set(topic, expiration);
-    this.checkExpiry(topic, expiration);
+    this.warned.delete(topic);
     this.events.emit(EXPIRER_EVENTS.created, {
       topic,
       expiration,
     } as ExpirerTypes.Created);
+    this.schedule(topic);
   };
 
   public get: IExpirer["get"] = topic => {
@@ -91,6 +104,8 @@ export class Expirer extends IExpirer {
     if (exists) {
       const expiration = this.getExpiration(topic);
       this.expirations.delete(topic);
+      this.clearTimer(topic);
+      this.warned.delete(topic);
       this.events.emit(EXPIRER_EVENTS.deleted, {
         topic,
         expiration,
@@ -164,26 +179,59 @@ export class Expirer extends IExpirer {
     return expiration;
   }
 
-  private checkExpiry(topic: string, expiration: ExpirerTypes.Expiration): void {
-    const { expiry } = expiration;
-    const msToTimeout = toMiliseconds(expiry) - Date.now();
-    if (msToTimeout <= 0) this.expire(topic, expiration);
+  // Expirations of ids (e.g. proposals) are tagged by id, auto extension checks by their own
+  // tag and everything else by topic
+  private getTag(expiration: ExpirerTypes.Expiration): string {
+    if (expiration.autoExtend) return autoExtendTag(expiration.topic);
+    return isUndefined(expiration.id) ? expiration.topic : expiration.id.toString();
+  }
+
+  // Arms a single timer per tag for its next deadline, either the warning or the expiry
+  private schedule(topic: string): void {
+    this.clearTimer(topic);
+    const expiration = this.expirations.get(topic);
+    if (!expiration) return;
+    const now = this.clock.now();
+    const expiresAt = toMiliseconds(expiration.expiry);
+    if (expiresAt <= now) return this.expire(topic, expiration);
+    const pendingWarning = !!this.opts?.warning && !this.warned.has(topic);
+    const warnAt = pendingWarning ? expiresAt - toMiliseconds(this.opts?.warning || 0) : expiresAt;
+    const shouldWarn = pendingWarning && warnAt <= now;
+    const deadline = warnAt > now ? warnAt : expiresAt;
+    const timer = this.clock.setTimeout(
+      () => this.schedule(topic),
+      Math.min(deadline - now, EXPIRER_MAX_TIMEOUT),
+    );
+    this.timers.set(topic, timer);
+    if (shouldWarn) this.warn(topic, expiration);
+  }
+
+  private clearTimer(topic: string): void {
+    const timer = this.timers.get(topic);
+    if (isUndefined(timer)) return;
+    this.clock.clearTimeout(timer);
+    this.timers.delete(topic);
+  }
+
+  private warn(topic: string, expiration: ExpirerTypes.Expiration): void {
+    this.warned.add(topic);
+    this.events.emit(EXPIRER_EVENTS.warning, {
+      topic,
+      expiration,
+    } as ExpirerTypes.Warning);
   }
 
   private expire(topic: string, expiration: ExpirerTypes.Expiration): void {
     this.expirations.delete(topic);
+    this.clearTimer(topic);
+    this.warned.delete(topic);
     this.events.emit(EXPIRER_EVENTS.expired, {
       topic,
       expiration,
     } as ExpirerTypes.Expired);
   }
 
-  private checkExpirations(): void {
-    this.expirations.forEach((expiration, topic) => this.checkExpiry(topic, expiration));
-  }
-
   private registerEventListeners(): void {
-    this.core.heartbeat.on(HEARTBEAT_EVENTS.pulse, () => this.checkExpirations());
     this.events.on(EXPIRER_EVENTS.created, (createdEvent: ExpirerTypes.Created) => {
       const eventName = EXPIRER_EVENTS.created;
       this.logger.info(`Emitting ${eventName}`);
@@ -196,6 +244,11 @@ export class Expirer extends IExpirer {
       this.logger.debug({ type: "event", event: eventName, data: expiredEvent });
       this.persist();
     });
+    this.events.on(EXPIRER_EVENTS.warning, (warningEvent: ExpirerTypes.Warning) => {
+      const eventName = EXPIRER_EVENTS.warning;
+      this.logger.info(`Emitting ${eventName}`);
+      this.logger.debug({ type: "event", event: eventName, data: warningEvent });
+    });
     this.events.on(EXPIRER_EVENTS.deleted, (deletedEvent: ExpirerTypes.Deleted) => {
       const eventName = EXPIRER_EVENTS.deleted;
       this.logger.info(`Emitting ${eventName}`);
@@ -137,6 +137,18 @@ export class JsonRpcHistory extends IJsonRpcHistory {
     return record.topic === topic;
   };
 
+  public move: IJsonRpcHistory["move"] = (topic, newTopic) => {
+    this.isInitialized();
+    this.logger.debug(`Moving records to new topic`);
+    this.logger.trace({ type: "method", method: "move", topic, newTopic });
+    this.values.forEach((record: JsonRpcRecord) => {
+      if (record.topic !== topic) return;
+      const moved = { ...record, topic: newTopic };
+      this.records.set(record.id, moved);
+      this.events.emit(HISTORY_EVENTS.updated, moved);
+    });
+  };
+
   public on: IJsonRpcHistory["on"] = (event, listener) => {
     this.events.on(event, listener);
   };
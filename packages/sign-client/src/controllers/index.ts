@@ -2,5 +2,6 @@ export * from "./engine";
 export * from "./expirer";
 export * from "./history";
 export * from "./pairing";
+export * from "./pendingRequest";
 export * from "./proposal";
 export * from "./session";
@@ -0,0 +1,17 @@
+import { Logger } from "pino";
+import { Store } from "@walletconnect/core";
+import { ICore, PendingRequestTypes } from "@walletconnect/types";
+
+import { SIGN_CLIENT_STORAGE_PREFIX, PENDING_REQUEST_CONTEXT } from "../constants";
+
+export class PendingRequest extends Store<number, PendingRequestTypes.Struct> {
+  constructor(public core: ICore, public logger: Logger) {
+    super(
+      core,
+      logger,
+      PENDING_REQUEST_CONTEXT,
+      SIGN_CLIENT_STORAGE_PREFIX,
+      (request: PendingRequestTypes.Struct) => request.id,
+    );
+  }
+}
@@ -1,5 +1,14 @@
-import { ERROR, calcExpiry } from "@walletconnect/utils";
+import { ERROR, TYPE_1, autoExtendTag, calcExpiry, parseUri } from "@walletconnect/utils";
 import "mocha";
+import {
+  formatJsonRpcError,
+  formatJsonRpcRequest,
+  formatJsonRpcResult,
+  isJsonRpcRequest,
+  JsonRpcPayload,
+  JsonRpcRequest,
+} from "@walletconnect/jsonrpc-utils";
+import { Core, RELAYER_EVENTS } from "@walletconnect/core";
 import SignClient from "../src";
 import {
   expect,
@@ -7,9 +16,30 @@ import {
   testConnectMethod,
   TEST_SIGN_CLIENT_DATABASE,
   TEST_SIGN_CLIENT_OPTIONS,
+  TEST_REQUEST_PARAMS,
+  TEST_EMIT_PARAMS,
+  TEST_NAMESPACES,
+  TEST_REQUIRED_NAMESPACES,
+  TEST_OPTIONAL_NAMESPACES,
+  TEST_COSMOS_ACCOUNT,
+  TEST_APP_METADATA_A,
+  TEST_APP_METADATA_B,
+  TEST_SIGN_CLIENT_OPTIONS_A,
+  TEST_SIGN_CLIENT_OPTIONS_B,
+  TEST_RELAY_OPTIONS,
   deleteClients,
+  throttle,
+  TestClock,
 } from "./shared";
-import { SEVEN_DAYS } from "@walletconnect/time";
+import { FIVE_MINUTES, ONE_DAY, SEVEN_DAYS, THIRTY_DAYS, toMiliseconds } from "@walletconnect/time";
+import {
+  ExpirerTypes,
+  JsonRpcRecord,
+  JsonRpcTypes,
+  RelayerTypes,
+  SessionTypes,
+  SignClientTypes,
+} from "@walletconnect/types";
 
 describe("Sign Client Integration", () => {
   it("init", async () => {
@@ -34,6 +64,334 @@ describe("Sign Client Integration", () => {
       });
       deleteClients(clients);
     });
+    it("connect (with concurrent proposals)", async () => {
+      const clients = await initTwoClients();
+      const { A, B } = clients;
+      const connections = await Promise.all([
+        A.connect({ requiredNamespaces: TEST_REQUIRED_NAMESPACES }),
+        A.connect({ requiredNamespaces: TEST_REQUIRED_NAMESPACES }),
+      ]);
+      const approvals = Promise.all(connections.map(({ approval }) => approval()));
+      const proposals: SignClientTypes.EventArguments["session_proposal"][] = [];
+      await new Promise<void>(resolve => {
+        B.on("session_proposal", proposal => {
+          proposals.push(proposal);
+          if (proposals.length === connections.length) resolve();
+        });
+        connections.forEach(({ uri }) => B.pair({ uri: uri as string }));
+      });
+      // approve in reverse order so settlements arrive out of order
+      const approved = await Promise.all(
+        proposals.reverse().map(async ({ id, params }) => {
+          const { topic, acknowledged } = await B.approve({ id, namespaces: TEST_NAMESPACES });
+          await acknowledged();
+          return { topic, pairingTopic: params.pairingTopic };
+        }),
+      );
+      const sessions = await approvals;
+      sessions.forEach((session, i) => {
+        const { topic } = parseUri(connections[i].uri as string);
+        expect(approved.find(({ pairingTopic }) => pairingTopic === topic)?.topic).to.eql(
+          session.topic,
+        );
+        expect(session.self).to.eql(B.session.get(session.topic).peer);
+      });
+      deleteClients(clients);
+    });
+    it("connect (with configured session ttl)", async () => {
+      const clients = await initTwoClients({ ttl: { session: ONE_DAY } });
+      const { sessionA } = await testConnectMethod(clients);
+      expect(sessionA.expiry).to.be.lessThanOrEqual(calcExpiry(ONE_DAY));
+      expect(sessionA.expiry).to.be.greaterThan(calcExpiry(ONE_DAY) - 10);
+      deleteClients(clients);
+    });
+    it("connect (with configured inactive pairing ttl)", async () => {
+      const clients = await initTwoClients({ ttl: { inactivePairing: 60 } });
+      const { uri } = await clients.A.connect({ requiredNamespaces: TEST_REQUIRED_NAMESPACES });
+      const { topic, expiryTimestamp } = parseUri(uri as string);
+      expect(clients.A.pairing.get(topic).expiry).to.eql(expiryTimestamp);
+      expect(expiryTimestamp).to.be.lessThanOrEqual(calcExpiry(60));
+      expect(expiryTimestamp).to.be.greaterThan(calcExpiry(60) - 10);
+      deleteClients(clients);
+    });
+    it("connect (with optional namespaces)", async () => {
+      const clients = await initTwoClients();
+      const { cosmos } = TEST_OPTIONAL_NAMESPACES;
+      await testConnectMethod(clients, {
+        optionalNamespaces: TEST_OPTIONAL_NAMESPACES,
+        namespaces: {
+          ...TEST_NAMESPACES,
+          cosmos: { accounts: [TEST_COSMOS_ACCOUNT], methods: cosmos.methods, events: [] },
+        },
+      });
+      deleteClients(clients);
+    });
+    it("rejects the approval and cleans up when the proposal expires", async () => {
+      const clients = await initTwoClients({ ttl: { proposal: 1 } });
+      const { A, B } = clients;
+      const { uri, approval } = await A.connect({ requiredNamespaces: TEST_REQUIRED_NAMESPACES });
+      if (!uri) throw new Error("uri is missing");
+      const [{ params }] = await Promise.all([
+        new Promise<SignClientTypes.EventArguments["session_proposal"]>(resolve => {
+          B.once("session_proposal", resolve);
+        }),
+        B.pair({ uri }),
+      ]);
+      await Promise.all([
+        expect(approval()).to.eventually.be.rejectedWith("Proposal expired"),
+        new Promise<void>(resolve => A.once("proposal_expire", () => resolve())),
+        new Promise<void>(resolve => B.once("proposal_expire", () => resolve())),
+      ]);
+      expect(A.proposal.keys).to.eql([]);
+      expect(B.proposal.keys).to.eql([]);
+      expect(A.core.crypto.hasKeys(params.proposer.publicKey)).to.be.false;
+      deleteClients(clients);
+    });
+    it("carries redirect metadata to the peer", async () => {
+      const redirectA = { native: "dapp://", universal: "https://dapp.example.com/app" };
+      const redirectB = { native: "wallet://" };
+      const clients = {
+        A: await SignClient.init({
+          ...TEST_SIGN_CLIENT_OPTIONS,
+          metadata: { ...TEST_APP_METADATA_A, redirect: redirectA },
+        }),
+        B: await SignClient.init({
+          ...TEST_SIGN_CLIENT_OPTIONS_B,
+          metadata: { ...TEST_APP_METADATA_B, redirect: redirectB },
+        }),
+      };
+      const { sessionA } = await testConnectMethod(clients);
+      expect(sessionA.peer.metadata.redirect).to.eql(redirectB);
+      expect(clients.B.session.get(sessionA.topic).peer.metadata.redirect).to.eql(redirectA);
+      deleteClients(clients);
+    });
+    it("rejects approval of namespaces outside of the proposal", async () => {
+      const clients = await initTwoClients();
+      const { A, B } = clients;
+      const { uri } = await A.connect({ requiredNamespaces: TEST_REQUIRED_NAMESPACES });
+      if (!uri) throw new Error("uri is missing");
+      await Promise.all([
+        new Promise<void>((resolve, reject) => {
+          B.once("session_proposal", async ({ id }) => {
+            try {
+              await expect(
+                B.approve({
+                  id,
+                  namespaces: {
+                    ...TEST_NAMESPACES,
+                    cosmos: { accounts: [TEST_COSMOS_ACCOUNT], methods: [], events: [] },
+                  },
+                }),
+              ).to.eventually.be.rejectedWith("Missing or invalid approve namespaces");
+              resolve();
+            } catch (error) {
+              reject(error);
+            }
+          });
+        }),
+        B.pair({ uri }),
+      ]);
+      deleteClients(clients);
+    });
+    it("rejects approval of namespaces missing required methods", async () => {
+      const clients = await initTwoClients();
+      const { A, B } = clients;
+      const { uri } = await A.connect({ requiredNamespaces: TEST_REQUIRED_NAMESPACES });
+      if (!uri) throw new Error("uri is missing");
+      const namespaces = {
+        eip155: { ...TEST_NAMESPACES.eip155, methods: TEST_NAMESPACES.eip155.methods.slice(1) },
+      };
+      await Promise.all([
+        new Promise<void>((resolve, reject) => {
+          B.once("session_proposal", async ({ id }) => {
+            try {
+              await expect(B.approve({ id, namespaces })).to.eventually.be.rejectedWith(
+                "Non conforming namespaces for approve",
+              );
+              resolve();
+            } catch (error) {
+              reject(error);
+            }
+          });
+        }),
+        B.pair({ uri }),
+      ]);
+      deleteClients(clients);
+    });
+    it("refuses to settle non conforming namespaces", async () => {
+      const A = await SignClient.init(TEST_SIGN_CLIENT_OPTIONS_A);
+      // a bare core acts as a wallet that skips its own checks
+      const wallet = new Core(TEST_SIGN_CLIENT_OPTIONS);
+      await wallet.start();
+      const { uri, approval } = await A.connect({ requiredNamespaces: TEST_REQUIRED_NAMESPACES });
+      if (!uri) throw new Error("uri is missing");
+      const { topic: pairingTopic, symKey } = parseUri(uri);
+      const proposal = new Promise<JsonRpcRequest<JsonRpcTypes.RequestParams["wc_sessionPropose"]>>(
+        resolve => {
+          wallet.relayer.on(RELAYER_EVENTS.message, (event: RelayerTypes.MessageEvent) => {
+            if (event.topic !== pairingTopic) return;
+            const payload = wallet.crypto.decode(event.topic, event.message);
+            if (isJsonRpcRequest(payload)) resolve(payload);
+          });
+        },
+      );
+      await wallet.crypto.setSymKey(symKey, pairingTopic);
+      await wallet.relayer.subscribe(pairingTopic);
+      const { id, params } = await proposal;
+      const publicKey = await wallet.crypto.generateKeyPair();
+      const sessionTopic = await wallet.crypto.generateSharedKey(
+        publicKey,
+        params.proposer.publicKey,
+      );
+      const publish = (topic: string, payload: JsonRpcPayload) =>
+        wallet.relayer.publish(topic, wallet.crypto.encode(topic, payload));
+      await publish(
+        pairingTopic,
+        formatJsonRpcResult(id, { relay: TEST_RELAY_OPTIONS, responderPublicKey: publicKey }),
+      );
+      await publish(
+        sessionTopic,
+        formatJsonRpcRequest("wc_sessionSettle", {
+          relay: TEST_RELAY_OPTIONS,
+          namespaces: { eip155: { ...TEST_NAMESPACES.eip155, events: [] } },
+          controller: { publicKey, metadata: TEST_APP_METADATA_B },
+          expiry: calcExpiry(SEVEN_DAYS),
+        }),
+      );
+      await expect(approval()).to.eventually.be.rejectedWith(
+        "Non conforming namespaces for settle",
+      );
+      expect(A.session.keys).to.eql([]);
+      expect(A.proposal.keys).to.eql([]);
+    });
+    it("settles proposals answered before the dapp restarted", async () => {
+      const options = {
+        ...TEST_SIGN_CLIENT_OPTIONS_A,
+        storageOptions: { database: TEST_SIGN_CLIENT_DATABASE },
+      };
+      const before = await SignClient.init(options);
+      const wallet = new Core(TEST_SIGN_CLIENT_OPTIONS);
+      await wallet.start();
+      const { uri } = await before.connect({ requiredNamespaces: TEST_REQUIRED_NAMESPACES });
+      if (!uri) throw new Error("uri is missing");
+      const { topic: pairingTopic, symKey } = parseUri(uri);
+      const proposal = new Promise<JsonRpcRequest<JsonRpcTypes.RequestParams["wc_sessionPropose"]>>(
+        resolve => {
+          wallet.relayer.on(RELAYER_EVENTS.message, (event: RelayerTypes.MessageEvent) => {
+            if (event.topic !== pairingTopic) return;
+            const payload = wallet.crypto.decode(event.topic, event.message);
+            if (isJsonRpcRequest(payload)) resolve(payload);
+          });
+        },
+      );
+      await wallet.crypto.setSymKey(symKey, pairingTopic);
+      await wallet.relayer.subscribe(pairingTopic);
+      const { id, params } = await proposal;
+      const publicKey = await wallet.crypto.generateKeyPair();
+      const sessionTopic = await wallet.crypto.generateSharedKey(
+        publicKey,
+        params.proposer.publicKey,
+      );
+      const publish = (topic: string, payload: JsonRpcPayload) =>
+        wallet.relayer.publish(topic, wallet.crypto.encode(topic, payload));
+      await publish(
+        pairingTopic,
+        formatJsonRpcResult(id, { relay: TEST_RELAY_OPTIONS, responderPublicKey: publicKey }),
+      );
+      await throttle(1000);
+      expect(before.proposal.get(id).sessionTopic).to.eql(sessionTopic);
+      // the dapp goes away before the settlement arrives
+      before.core.relayer.events.removeAllListeners(RELAYER_EVENTS.message);
+      const after = await SignClient.init(options);
+      const created = new Promise<SessionTypes.Struct>(resolve =>
+        after.on("session_created", ({ session }) => resolve(session)),
+      );
+      await publish(
+        sessionTopic,
+        formatJsonRpcRequest("wc_sessionSettle", {
+          relay: TEST_RELAY_OPTIONS,
+          namespaces: TEST_NAMESPACES,
+          controller: { publicKey, metadata: TEST_APP_METADATA_B },
+          expiry: calcExpiry(SEVEN_DAYS),
+        }),
+      );
+      expect((await created).topic).to.eql(sessionTopic);
+      expect(after.proposal.keys).to.not.include(id);
+    });
+  });
+
+  describe("query sessions", () => {
+    it("filters sessions and sorts them by activity", async () => {
+      const clients = await initTwoClients();
+      const { A, B } = clients;
+      const {
+        sessionA: { topic: older },
+        pairingA,
+      } = await testConnectMethod(clients);
+      const {
+        sessionA: { topic: newer },
+      } = await testConnectMethod(clients, {
+        pairingTopic: pairingA.topic,
+        requiredNamespaces: {
+          eip155: { ...TEST_REQUIRED_NAMESPACES.eip155, methods: ["personal_sign"] },
+        },
+        namespaces: { eip155: { ...TEST_NAMESPACES.eip155, methods: ["personal_sign"] } },
+      });
+      const { lastActivity = 0 } = A.session.get(older);
+      await A.session.update(newer, { lastActivity: lastActivity + 10 });
+      expect(A.querySessions().map(({ topic }) => topic)).to.eql([newer, older]);
+      expect(
+        A.querySessions({ peer: { name: TEST_APP_METADATA_B.name } }).map(({ topic }) => topic),
+      ).to.eql([newer, older]);
+      expect(A.querySessions({ method: "eth_signTransaction" }).map(({ topic }) => topic)).to.eql([
+        older,
+      ]);
+      expect(A.querySessions({ chain: TEST_COSMOS_ACCOUNT.split(":", 2).join(":") })).to.eql([]);
+      expect(A.querySessions({ account: TEST_NAMESPACES.eip155.accounts[0] })).to.have.length(2);
+      expect(A.querySessions({ expiry: { to: A.session.get(older).expiry - 1 } })).to.eql([]);
+      expect(A.querySessions({ acknowledged: false })).to.eql([]);
+      expect(B.querySessions({ peer: { url: TEST_APP_METADATA_A.url } })).to.have.length(2);
+      deleteClients(clients);
+    });
+  });
+
+  describe("pairings", () => {
+    it("emits pairing_created on both sides", async () => {
+      const clients = await initTwoClients();
+      const created = Promise.all(
+        [clients.A, clients.B].map(
+          client =>
+            new Promise<SignClientTypes.EventArguments["pairing_created"]>(resolve => {
+              client.once("pairing_created", resolve);
+            }),
+        ),
+      );
+      const { pairingA } = await testConnectMethod(clients);
+      const events = await created;
+      events.forEach(({ pairing }) => expect(pairing.topic).to.eql(pairingA.topic));
+      deleteClients(clients);
+    });
+    it("records the peer metadata on both sides", async () => {
+      const clients = await initTwoClients();
+      const {
+        pairingA: { topic },
+      } = await testConnectMethod(clients);
+      const [pairingA] = clients.A.getPairings();
+      const [pairingB] = clients.B.getPairings().filter(pairing => pairing.topic === topic);
+      expect(pairingA.topic).to.eql(topic);
+      expect(pairingA.peerMetadata).to.eql(TEST_APP_METADATA_B);
+      expect(pairingB.peerMetadata).to.eql(TEST_APP_METADATA_A);
+      deleteClients(clients);
+    });
+    it("updates the pairing label", async () => {
+      const clients = await initTwoClients();
+      const {
+        pairingA: { topic },
+      } = await testConnectMethod(clients);
+      await clients.A.updatePairing({ topic, label: "Test Wallet" });
+      expect(clients.A.pairing.get(topic).label).to.eql("Test Wallet");
+      deleteClients(clients);
+    });
   });
 
   describe("disconnect", () => {
@@ -52,6 +410,66 @@ describe("Sign Client Integration", () => {
         await expect(promise).to.eventually.be.rejectedWith("Missing or invalid topic");
         deleteClients(clients);
       });
+      it("keeps the sessions of the pairing by default", async () => {
+        const clients = await initTwoClients();
+        const { pairingA, sessionA } = await testConnectMethod(clients);
+        expect(sessionA.pairingTopic).to.eql(pairingA.topic);
+        const reason = ERROR.USER_DISCONNECTED.format();
+        await clients.A.disconnect({ topic: pairingA.topic, reason });
+        expect(clients.A.session.keys).to.include(sessionA.topic);
+        deleteClients(clients);
+      });
+      it("deletes the sessions of the pairing on both sides when cascading", async () => {
+        const clients = await initTwoClients({ cascadePairingDelete: true });
+        const { pairingA, sessionA } = await testConnectMethod(clients);
+        expect(clients.B.session.get(sessionA.topic).pairingTopic).to.eql(pairingA.topic);
+        const reason = ERROR.USER_DISCONNECTED.format();
+        const deleted = new Promise<SignClientTypes.EventArguments["session_deleted"]>(resolve => {
+          clients.B.once("session_deleted", resolve);
+        });
+        await clients.A.disconnect({ topic: pairingA.topic, reason });
+        expect(clients.A.session.keys).not.to.include(sessionA.topic);
+        const event = await deleted;
+        expect(event.session.topic).to.eql(sessionA.topic);
+        expect(event.reason).to.eql(reason);
+        expect(clients.B.session.keys).not.to.include(sessionA.topic);
+        deleteClients(clients);
+      });
+      it("deletes the sessions of an expired pairing on both sides when cascading", async () => {
+        const clock = new TestClock();
+        const clients = {
+          A: await SignClient.init({
+            ...TEST_SIGN_CLIENT_OPTIONS_A,
+            cascadePairingDelete: true,
+            ttl: { pairing: ONE_DAY },
+            expirer: { clock },
+          }),
+          B: await SignClient.init(TEST_SIGN_CLIENT_OPTIONS_B),
+        };
+        const { sessionA } = await testConnectMethod(clients);
+        const deleted = new Promise<SignClientTypes.EventArguments["session_deleted"]>(resolve => {
+          clients.B.once("session_deleted", resolve);
+        });
+        clock.advance(toMiliseconds(ONE_DAY));
+        const event = await deleted;
+        expect(event.session.topic).to.eql(sessionA.topic);
+        expect(event.reason).to.eql(ERROR.EXPIRED.format({ context: "pairing" }));
+        expect(clients.A.session.keys).not.to.include(sessionA.topic);
+        deleteClients(clients);
+      });
+      it("rejects pending proposals of the pairing when cascading", async () => {
+        const clients = await initTwoClients({ cascadePairingDelete: true });
+        const { uri, approval } = await clients.A.connect({
+          requiredNamespaces: TEST_REQUIRED_NAMESPACES,
+        });
+        const { topic } = parseUri(uri!);
+        const reason = ERROR.USER_DISCONNECTED.format();
+        const rejected = expect(approval()).to.eventually.be.rejected.and.eql(reason);
+        await clients.A.disconnect({ topic, reason });
+        await rejected;
+        expect(clients.A.proposal.length).to.eql(0);
+        deleteClients(clients);
+      });
     });
     describe("session", () => {
       it("deletes the session on disconnect", async () => {
@@ -71,6 +489,306 @@ describe("Sign Client Integration", () => {
     });
   });
 
+  describe("lifecycle events", () => {
+    it("emits session_created on both sides once the session is settled", async () => {
+      const clients = await initTwoClients();
+      const created = Promise.all(
+        [clients.A, clients.B].map(
+          client =>
+            new Promise<SessionTypes.Struct>(resolve => {
+              client.once("session_created", ({ session }) => resolve(session));
+            }),
+        ),
+      );
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const [sessionA, sessionB] = await created;
+      expect(sessionA).to.eql(clients.A.session.get(topic));
+      expect(sessionB).to.eql(clients.B.session.get(topic));
+      expect(sessionB.acknowledged).to.be.true;
+      deleteClients(clients);
+    });
+    it("emits session_updated on both sides", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const namespaces = {
+        ...TEST_NAMESPACES,
+        eip9001: {
+          accounts: ["eip9001:1:0x000000000000000000000000000000000000dead"],
+          methods: ["eth_sendTransaction"],
+          events: ["accountsChanged"],
+        },
+      };
+      const updated = Promise.all(
+        [clients.A, clients.B].map(
+          client =>
+            new Promise<SessionTypes.Struct>(resolve => {
+              client.once("session_updated", ({ session }) => resolve(session));
+            }),
+        ),
+      );
+      const { acknowledged } = await clients.A.update({ topic, namespaces });
+      await acknowledged();
+      const sessions = await updated;
+      sessions.forEach(session => expect(session.namespaces).to.eql(namespaces));
+      deleteClients(clients);
+    });
+    it("emits session_deleted with the reason on both sides", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const reason = ERROR.USER_DISCONNECTED.format();
+      const deleted = Promise.all(
+        [clients.A, clients.B].map(
+          client =>
+            new Promise<SignClientTypes.EventArguments["session_deleted"]>(resolve => {
+              client.once("session_deleted", resolve);
+            }),
+        ),
+      );
+      await clients.A.disconnect({ topic, reason });
+      const events = await deleted;
+      events.forEach(event => {
+        expect(event.session.topic).to.eql(topic);
+        expect(event.reason).to.eql(reason);
+      });
+      deleteClients(clients);
+    });
+  });
+
+  describe("activity", () => {
+    it("records when the session was created and last active", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const { createdAt, lastActivity } = clients.A.session.get(topic);
+      expect(createdAt).to.be.a("number");
+      expect(lastActivity).to.be.at.least(createdAt!);
+      await throttle(1000);
+      const { acknowledged } = await clients.A.update({
+        topic,
+        namespaces: clients.A.session.get(topic).namespaces,
+      });
+      await acknowledged();
+      expect(clients.A.session.get(topic).lastActivity).to.be.greaterThan(lastActivity!);
+      expect(clients.B.session.get(topic).lastActivity).to.be.greaterThan(lastActivity!);
+      deleteClients(clients);
+    });
+    it("does not count pings as activity", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const { lastActivity } = clients.B.session.get(topic);
+      await throttle(1000);
+      await clients.A.ping({ topic });
+      expect(clients.A.session.get(topic).lastActivity).to.eql(lastActivity);
+      expect(clients.B.session.get(topic).lastActivity).to.eql(lastActivity);
+      deleteClients(clients);
+    });
+    it("reports reachable peers with the measured latency", async () => {
+      const clients = await initTwoClients({ liveness: { interval: 1, timeout: 1 } });
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const event = await new Promise<SignClientTypes.EventArguments["session_peer_reachable"]>(
+        resolve => clients.A.once("session_peer_reachable", resolve),
+      );
+      expect(event.topic).to.eql(topic);
+      expect(event.latency).to.be.a("number");
+      await clients.A.disconnect({ topic, reason: ERROR.USER_DISCONNECTED.format() });
+      deleteClients(clients);
+    });
+    it("reports unreachable peers", async () => {
+      const clients = await initTwoClients({ liveness: { interval: 1, timeout: 1 } });
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      await clients.B.core.relayer.unsubscribe(topic);
+      const event = await new Promise<SignClientTypes.EventArguments["session_peer_unreachable"]>(
+        resolve => clients.A.once("session_peer_unreachable", resolve),
+      );
+      expect(event.topic).to.eql(topic);
+      await clients.B.disconnect({ topic, reason: ERROR.USER_DISCONNECTED.format() });
+      deleteClients(clients);
+    });
+  });
+
+  describe("auto extension", () => {
+    it("schedules the check on the controller side once the session enters the threshold", async () => {
+      const clients = await initTwoClients({ autoExtend: { threshold: ONE_DAY } });
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const { expiry } = clients.B.session.get(topic);
+      expect(clients.B.expirer.get(autoExtendTag(topic)).expiry).to.eql(expiry - ONE_DAY);
+      expect(clients.A.expirer.has(autoExtendTag(topic))).to.be.false;
+      await clients.B.disconnect({ topic, reason: ERROR.USER_DISCONNECTED.format() });
+      expect(clients.B.expirer.has(autoExtendTag(topic))).to.be.false;
+      deleteClients(clients);
+    });
+    it("does not extend idle sessions kept alive by liveness pings", async () => {
+      const clients = await initTwoClients({
+        liveness: { interval: 1, timeout: 1 },
+        autoExtend: { threshold: SEVEN_DAYS - 3, activity: 1, ttl: THIRTY_DAYS },
+      });
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      let extended = false;
+      clients.B.once("session_auto_extend", () => (extended = true));
+      const reachable = new Promise(resolve => clients.B.once("session_peer_reachable", resolve));
+      await throttle(6000);
+      await reachable;
+      expect(extended).to.be.false;
+      await clients.B.disconnect({ topic, reason: ERROR.USER_DISCONNECTED.format() });
+      deleteClients(clients);
+    });
+    it("extends active sessions approaching expiry from the controller side", async () => {
+      const clients = await initTwoClients({
+        autoExtend: { threshold: SEVEN_DAYS, ttl: THIRTY_DAYS },
+      });
+      const extended = new Promise<SignClientTypes.EventArguments["session_auto_extend"]>(resolve =>
+        clients.B.once("session_auto_extend", resolve),
+      );
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const event = await extended;
+      expect(event).to.eql({ topic, ttl: THIRTY_DAYS });
+      await throttle(1000);
+      const expiry = clients.A.session.get(topic).expiry;
+      expect(expiry).to.be.greaterThan(calcExpiry(THIRTY_DAYS) - 10);
+      expect(clients.B.session.get(topic).expiry).to.eql(expiry);
+      deleteClients(clients);
+    });
+    it("emits failed extension attempts", async () => {
+      const clients = await initTwoClients({
+        autoExtend: { threshold: SEVEN_DAYS, ttl: THIRTY_DAYS + 1 },
+      });
+      const failed = new Promise<SignClientTypes.EventArguments["session_auto_extend_failure"]>(
+        resolve => clients.B.once("session_auto_extend_failure", resolve),
+      );
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const event = await failed;
+      expect(event.topic).to.eql(topic);
+      expect(event.error.message).to.eql("Missing or invalid extend ttl");
+      deleteClients(clients);
+    });
+  });
+
+  describe("expirer", () => {
+    it("warns ahead of expiry and expires on time", async () => {
+      const clock = new TestClock();
+      const client = await SignClient.init({
+        ...TEST_SIGN_CLIENT_OPTIONS,
+        expirer: { clock, warning: 60 },
+      });
+      const topic = "expirer-timer-topic";
+      const warnings: ExpirerTypes.Warning[] = [];
+      const expirations: ExpirerTypes.Expired[] = [];
+      client.expirer.on("expirer_warning", (event: ExpirerTypes.Warning) => warnings.push(event));
+      client.expirer.on("expirer_expired", (event: ExpirerTypes.Expired) =>
+        expirations.push(event),
+      );
+      client.expirer.set(topic, { topic, expiry: calcExpiry(120, clock.now()) });
+      clock.advance(59000);
+      expect(warnings).to.have.length(0);
+      clock.advance(1000);
+      expect(warnings.map(event => event.topic)).to.eql([topic]);
+      clock.advance(59000);
+      expect(expirations).to.have.length(0);
+      clock.advance(1000);
+      expect(expirations.map(event => event.topic)).to.eql([topic]);
+      expect(client.expirer.has(topic)).to.be.false;
+    });
+    it("re-arms timers for restored expirations", async () => {
+      const clock = new TestClock();
+      const options = {
+        ...TEST_SIGN_CLIENT_OPTIONS,
+        storageOptions: { database: TEST_SIGN_CLIENT_DATABASE },
+        expirer: { clock },
+      };
+      const before = await SignClient.init(options);
+      const topic = "expirer-restore-topic";
+      before.expirer.set(topic, { topic, expiry: calcExpiry(120, clock.now()) });
+      await throttle(500);
+      const after = await SignClient.init(options);
+      expect(after.expirer.has(topic)).to.be.true;
+      const expired = new Promise<ExpirerTypes.Expired>(resolve =>
+        after.expirer.once("expirer_expired", resolve),
+      );
+      clock.advance(120000);
+      expect((await expired).topic).to.eql(topic);
+      expect(after.expirer.has(topic)).to.be.false;
+    });
+    describe("lapsed while offline", () => {
+      const storageOptions = { database: TEST_SIGN_CLIENT_DATABASE };
+      const offlineClock = () => {
+        const clock = new TestClock();
+        clock.advance(toMiliseconds(ONE_DAY));
+        return clock;
+      };
+
+      it("cancels proposals on restart", async () => {
+        const options = { ...TEST_SIGN_CLIENT_OPTIONS_A, storageOptions };
+        const before = await SignClient.init(options);
+        await before.connect({ requiredNamespaces: TEST_REQUIRED_NAMESPACES });
+        const { id, proposer } = before.proposal.values[before.proposal.length - 1];
+        await throttle(500);
+        const after = await SignClient.init({ ...options, expirer: { clock: offlineClock() } });
+        await throttle(500);
+        expect(after.proposal.keys).to.not.include(id);
+        expect(after.expirer.has(id.toString())).to.be.false;
+        expect(after.core.crypto.hasKeys(proposer.publicKey)).to.be.false;
+      });
+      it("removes pending requests on restart", async () => {
+        const clients = await initTwoClients({ storageOptions });
+        const {
+          sessionA: { topic },
+        } = await testConnectMethod(clients);
+        const received = new Promise<number>(resolve => {
+          clients.B.once("session_request", ({ id }) => resolve(id));
+        });
+        clients.A.request({ topic, ...TEST_REQUEST_PARAMS, expiry: 60 }).catch(() => undefined);
+        const id = await received;
+        await throttle(500);
+        deleteClients(clients);
+        const B = await SignClient.init({
+          ...TEST_SIGN_CLIENT_OPTIONS_B,
+          storageOptions,
+          expirer: { clock: offlineClock() },
+        });
+        expect(B.getPendingSessionRequests().map(request => request.id)).to.not.include(id);
+        expect(B.expirer.has(id.toString())).to.be.false;
+      });
+      it("retires previous topics of rekeyed sessions on restart", async () => {
+        const clients = await initTwoClients({ storageOptions });
+        const {
+          sessionA: { topic },
+        } = await testConnectMethod(clients);
+        const { acknowledged } = await clients.A.rekey({ topic });
+        await acknowledged();
+        await throttle(500);
+        deleteClients(clients);
+        const A = await SignClient.init({
+          ...TEST_SIGN_CLIENT_OPTIONS_A,
+          storageOptions,
+          expirer: { clock: offlineClock() },
+        });
+        expect(A.core.crypto.hasKeys(topic)).to.be.false;
+        expect(A.expirer.has(topic)).to.be.false;
+      });
+    });
+  });
+
   describe("ping", () => {
     it("throws if the topic is not a known pairing or session topic", async () => {
       const clients = await initTwoClients();
@@ -184,6 +902,521 @@ describe("Sign Client Integration", () => {
       expect(result).to.eql(namespacesAfter);
       deleteClients(clients);
     });
+    it("emits what the update added and removed", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const [account, ...accounts] = TEST_NAMESPACES.eip155.accounts;
+      const namespaces = {
+        eip155: { ...TEST_NAMESPACES.eip155, accounts },
+        eip9001: {
+          accounts: ["eip9001:1:0x000000000000000000000000000000000000dead"],
+          methods: ["eth_sendTransaction", "eth_sign"],
+          events: ["accountsChanged"],
+        },
+      };
+      const updated = new Promise<SignClientTypes.EventArguments["session_update"]>(resolve =>
+        clients.B.once("session_update", resolve),
+      );
+      const { acknowledged } = await clients.A.update({ topic, namespaces });
+      await acknowledged();
+      const { params } = await updated;
+      expect(params.namespaces).to.eql(namespaces);
+      expect(params.added).to.eql({
+        accounts: namespaces.eip9001.accounts,
+        chains: ["eip9001:1"],
+        methods: ["eth_sign"],
+        events: [],
+      });
+      expect(params.removed).to.eql({
+        accounts: [account],
+        chains: ["eip155:1"],
+        methods: [],
+        events: [],
+      });
+      deleteClients(clients);
+    });
+  });
+
+  describe("request", () => {
+    it("rejects without answering its own request when it expires", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const received = new Promise<number>(resolve => {
+        clients.B.once("session_request", ({ id }) => resolve(id));
+      });
+      const promise = clients.A.request({ topic, ...TEST_REQUEST_PARAMS, expiry: 1 });
+      const id = await received;
+      expect(clients.B.history.pending.map(({ request }) => request.id)).to.include(id);
+      await expect(promise).to.eventually.be.rejectedWith("JSON-RPC Request timeout after");
+      const { response } = await clients.A.history.get(topic, id);
+      expect(response).to.have.nested.property("error.code", ERROR.JSONRPC_REQUEST_TIMEOUT.code);
+      await throttle(500);
+      expect(clients.B.history.pending.map(({ request }) => request.id)).to.include(id);
+      deleteClients(clients);
+    });
+    it("emits request_expire when the request expires", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const expired = new Promise<SignClientTypes.EventArguments["request_expire"]>(resolve =>
+        clients.A.once("request_expire", resolve),
+      );
+      const promise = clients.A.request({ topic, ...TEST_REQUEST_PARAMS, expiry: 1 });
+      await expect(promise).to.eventually.be.rejected;
+      const { id } = await expired;
+      expect(await expired).to.eql({ id, topic });
+      expect(clients.A.expirer.has(id.toString())).to.be.false;
+      deleteClients(clients);
+    });
+    it("expires received requests and refuses late responses", async () => {
+      const clock = new TestClock();
+      const clients = await initTwoClients();
+      const B = await SignClient.init({ ...TEST_SIGN_CLIENT_OPTIONS_B, expirer: { clock } });
+      const { sessionA } = await testConnectMethod({ A: clients.A, B });
+      const { topic } = sessionA;
+      const received = new Promise<number>(resolve => {
+        B.once("session_request", ({ id }) => resolve(id));
+      });
+      clients.A.request({ topic, ...TEST_REQUEST_PARAMS, expiry: 60 }).catch(() => null);
+      const id = await received;
+      expect(B.expirer.has(id.toString())).to.be.true;
+      const expired = new Promise<SignClientTypes.EventArguments["request_expire"]>(resolve =>
+        B.once("request_expire", resolve),
+      );
+      clock.advance(B.expirer.get(id.toString()).expiry * 1000 - clock.now());
+      expect(await expired).to.eql({ id, topic });
+      expect(B.getPendingSessionRequests()).to.eql([]);
+      const { response } = await B.history.get(topic, id);
+      expect(response).to.have.nested.property("error.code", ERROR.EXPIRED.code);
+      await expect(
+        B.respond({ topic, response: { id, jsonrpc: "2.0", result: "0x" } }),
+      ).to.eventually.be.rejectedWith("Request expired");
+      deleteClients({ A: clients.A, B });
+    });
+    it("rejects when the request is aborted", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const controller = new AbortController();
+      const received = new Promise<number>(resolve => {
+        clients.B.once("session_request", ({ id }) => {
+          controller.abort();
+          resolve(id);
+        });
+      });
+      const promise = clients.A.request({
+        topic,
+        ...TEST_REQUEST_PARAMS,
+        signal: controller.signal,
+      });
+      const id = await received;
+      await expect(promise).to.eventually.be.rejectedWith("JSON-RPC Request timeout after");
+      const { response } = await clients.A.history.get(topic, id);
+      expect(response).to.have.nested.property("error.code", ERROR.JSONRPC_REQUEST_TIMEOUT.code);
+      expect(clients.B.expirer.has(id.toString())).to.be.true;
+      deleteClients(clients);
+    });
+    it("lets the peer expire requests sent without an expiry", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const received = new Promise<number>(resolve => {
+        clients.B.once("session_request", ({ id }) => resolve(id));
+      });
+      clients.A.request({ topic, ...TEST_REQUEST_PARAMS }).catch(() => undefined);
+      const id = await received;
+      const { params } = clients.B.pendingRequest.get(id);
+      expect(params.expiry).to.be.lessThanOrEqual(calcExpiry(FIVE_MINUTES));
+      expect(clients.B.expirer.has(id.toString())).to.be.true;
+      deleteClients(clients);
+    });
+  });
+
+  describe("pending requests", () => {
+    it("queues incoming requests until they are answered", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const received = new Promise<number>(resolve => {
+        clients.B.once("session_request", ({ id }) => resolve(id));
+      });
+      const promise = clients.A.request({ topic, ...TEST_REQUEST_PARAMS });
+      const id = await received;
+      const [pending] = clients.B.getPendingSessionRequests();
+      expect(pending.id).to.eql(id);
+      expect(pending.topic).to.eql(topic);
+      expect(pending.params.chainId).to.eql(TEST_REQUEST_PARAMS.chainId);
+      expect(pending.peerMetadata).to.eql(TEST_APP_METADATA_A);
+      expect(pending.receivedAt).to.be.a("number");
+      await clients.B.respond({ topic, response: { id, jsonrpc: "2.0", result: "0x" } });
+      await expect(promise).to.eventually.eql("0x");
+      expect(clients.B.getPendingSessionRequests()).to.eql([]);
+      deleteClients(clients);
+    });
+    it("removes pending requests once they expire", async () => {
+      const clock = new TestClock();
+      const clients = await initTwoClients();
+      const B = await SignClient.init({ ...TEST_SIGN_CLIENT_OPTIONS_B, expirer: { clock } });
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod({ A: clients.A, B });
+      const received = new Promise<number>(resolve => {
+        B.once("session_request", ({ id }) => resolve(id));
+      });
+      const promise = clients.A.request({ topic, ...TEST_REQUEST_PARAMS, expiry: 1 });
+      const id = await received;
+      expect(B.getPendingSessionRequests()).to.have.lengthOf(1);
+      await expect(promise).to.eventually.be.rejected;
+      expect(B.getPendingSessionRequests()).to.have.lengthOf(1);
+      clock.advance(B.expirer.get(id.toString()).expiry * 1000 - clock.now());
+      await throttle(500);
+      expect(B.getPendingSessionRequests()).to.eql([]);
+      deleteClients({ A: clients.A, B });
+    });
+    it("removes pending requests of a deleted session", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const received = new Promise<void>(resolve => {
+        clients.B.once("session_request", () => resolve());
+      });
+      clients.A.request({ topic, ...TEST_REQUEST_PARAMS }).catch(() => undefined);
+      await received;
+      await clients.B.disconnect({ topic, reason: ERROR.USER_DISCONNECTED.format() });
+      expect(clients.B.getPendingSessionRequests()).to.eql([]);
+      deleteClients(clients);
+    });
+    it("emits pending_requests after restart", async () => {
+      const clients = await initTwoClients({
+        storageOptions: { database: TEST_SIGN_CLIENT_DATABASE },
+      });
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const received = new Promise<number>(resolve => {
+        clients.B.once("session_request", ({ id }) => resolve(id));
+      });
+      clients.A.request({ topic, ...TEST_REQUEST_PARAMS }).catch(() => undefined);
+      const id = await received;
+      deleteClients(clients);
+      // restart
+      const B = await SignClient.init({
+        ...TEST_SIGN_CLIENT_OPTIONS_B,
+        storageOptions: { database: TEST_SIGN_CLIENT_DATABASE },
+      });
+      const { requests } = await new Promise<SignClientTypes.EventArguments["pending_requests"]>(
+        resolve => B.once("pending_requests", resolve),
+      );
+      expect(requests.map(request => request.id)).to.eql([id]);
+      expect(B.getPendingSessionRequests()).to.eql(requests);
+    });
+  });
+
+  describe("compression", () => {
+    const compression = { enabled: true, threshold: 0 };
+    const testLargeRequest = async (clients: { A: SignClient; B: SignClient }, topic: string) => {
+      const params = [{ data: "0x".padEnd(4096, "f") }];
+      const received = new Promise<any>(resolve => {
+        clients.B.once("session_request", resolve);
+      });
+      const promise = clients.A.request({
+        topic,
+        chainId: TEST_REQUEST_PARAMS.chainId,
+        request: { method: TEST_REQUEST_PARAMS.request.method, params },
+      });
+      const {
+        id,
+        params: { request },
+      } = await received;
+      expect(request.params).to.eql(params);
+      await clients.B.respond({ topic, response: { id, jsonrpc: "2.0", result: params } });
+      expect(await promise).to.eql(params);
+    };
+    it("negotiates compression when both peers support it", async () => {
+      const clients = await initTwoClients({ compression });
+      const { sessionA } = await testConnectMethod(clients);
+      expect(sessionA.compression).to.eql("deflate");
+      expect(clients.B.session.get(sessionA.topic).compression).to.eql("deflate");
+      await testLargeRequest(clients, sessionA.topic);
+      deleteClients(clients);
+    });
+    it("sends uncompressed messages when the peer does not support it", async () => {
+      const clients = {
+        A: await SignClient.init({ ...TEST_SIGN_CLIENT_OPTIONS_A, compression }),
+        B: await SignClient.init(TEST_SIGN_CLIENT_OPTIONS_B),
+      };
+      const { sessionA } = await testConnectMethod(clients);
+      expect(sessionA.compression).to.be.undefined;
+      expect(clients.B.session.get(sessionA.topic).compression).to.be.undefined;
+      await testLargeRequest(clients, sessionA.topic);
+      deleteClients(clients);
+    });
+  });
+
+  describe("envelopes", () => {
+    it("answers type 1 envelopes addressed to the session key", async () => {
+      const clients = await initTwoClients();
+      const { sessionA } = await testConnectMethod(clients);
+      const { topic } = sessionA;
+      const payload = formatJsonRpcRequest("wc_sessionPing", {});
+      const message = clients.A.core.crypto.encode(topic, payload, {
+        type: TYPE_1,
+        senderPublicKey: sessionA.self.publicKey,
+        receiverPublicKey: sessionA.peer.publicKey,
+      });
+      const pinged = new Promise<any>(resolve => clients.B.once("session_ping", resolve));
+      clients.A.history.set(topic, payload);
+      await clients.A.core.relayer.publish(topic, message);
+      expect(await pinged).to.eql({ id: payload.id, topic });
+      deleteClients(clients);
+    });
+    it("drops type 1 envelopes sealed by another key than the peer's", async () => {
+      const clients = await initTwoClients();
+      const { sessionA } = await testConnectMethod(clients);
+      const { topic } = sessionA;
+      const payload = formatJsonRpcRequest("wc_sessionDelete", ERROR.USER_DISCONNECTED.format());
+      const message = clients.A.core.crypto.encode(topic, payload, {
+        type: TYPE_1,
+        senderPublicKey: await clients.A.core.crypto.generateKeyPair(),
+        receiverPublicKey: sessionA.peer.publicKey,
+      });
+      let deleted = false;
+      clients.B.once("session_delete", () => (deleted = true));
+      await clients.A.core.relayer.publish(topic, message);
+      await throttle(500);
+      expect(deleted).to.be.false;
+      expect(clients.B.session.keys).to.include(topic);
+      deleteClients(clients);
+    });
+    it("ignores messages that can not be decoded", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      await clients.A.core.relayer.publish(
+        topic,
+        "AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA",
+      );
+      await throttle(500);
+      await clients.A.ping({ topic });
+      deleteClients(clients);
+    });
+  });
+
+  describe("request middlewares", () => {
+    it("answers requests without emitting them", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      let emitted = false;
+      clients.B.once("session_request", () => (emitted = true));
+      clients.B.engine.use(TEST_REQUEST_PARAMS.request.method, ({ id }) => ({
+        type: "response",
+        response: formatJsonRpcResult(id, "0x"),
+      }));
+      const result = await clients.A.request({ topic, ...TEST_REQUEST_PARAMS });
+      expect(result).to.eql("0x");
+      expect(emitted).to.be.false;
+      expect(clients.B.getPendingSessionRequests()).to.eql([]);
+      deleteClients(clients);
+    });
+    it("rejects requests with the returned error", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const reason = ERROR.UNAUTHORIZED_JSON_RPC_METHOD.format({
+        method: TEST_REQUEST_PARAMS.request.method,
+      });
+      clients.B.engine.use("*", ({ id }) => ({
+        type: "response",
+        response: formatJsonRpcError(id, reason),
+      }));
+      const error = await clients.A.request({ topic, ...TEST_REQUEST_PARAMS }).catch(e => e);
+      expect(error).to.have.property("code", reason.code);
+      deleteClients(clients);
+    });
+    it("passes transformed params to the following middlewares and listeners", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const transformed = { ...TEST_REQUEST_PARAMS.request, params: ["0x1"] };
+      const seen: any[] = [];
+      clients.B.engine.use("*", ({ params }) => ({
+        type: "params",
+        params: { ...params, request: transformed },
+      }));
+      clients.B.engine.use(TEST_REQUEST_PARAMS.request.method, ({ params }) => {
+        seen.push(params.request);
+      });
+      const received = new Promise<SignClientTypes.EventArguments["session_request"]>(resolve => {
+        clients.B.once("session_request", resolve);
+      });
+      clients.A.request({ topic, ...TEST_REQUEST_PARAMS }).catch(() => undefined);
+      const { params } = await received;
+      expect(params.request).to.eql(transformed);
+      expect(seen).to.eql([transformed]);
+      deleteClients(clients);
+    });
+    it("stops running removed middlewares", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      let calls = 0;
+      const remove = clients.B.engine.use("*", () => {
+        calls++;
+      });
+      remove();
+      const received = new Promise<void>(resolve => {
+        clients.B.once("session_request", () => resolve());
+      });
+      clients.A.request({ topic, ...TEST_REQUEST_PARAMS }).catch(() => undefined);
+      await received;
+      expect(calls).to.eql(0);
+      deleteClients(clients);
+    });
+  });
+
+  describe("custom methods", () => {
+    it("routes custom requests and responses through the registered handlers", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const responses: any[] = [];
+      clients.A.engine.registerMethod("wc_sessionTest", {
+        onRequest: () => false,
+        onResponse: response => responses.push(response),
+      });
+      clients.B.engine.registerMethod<{ value: number }, number>("wc_sessionTest", {
+        onRequest: ({ params }) => params.value * 2,
+      });
+      const result = await clients.A.engine.sendCustomRequest<{ value: number }, number>({
+        topic,
+        method: "wc_sessionTest",
+        params: { value: 21 },
+      });
+      expect(result).to.eql(42);
+      expect(responses).to.have.lengthOf(1);
+      expect(responses[0]).to.include({ topic, result: 42 });
+      deleteClients(clients);
+    });
+    it("rejects custom requests refused by the peer validator", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const reason = ERROR.MISSING_OR_INVALID.format({ name: "test params" });
+      clients.A.engine.registerMethod("wc_sessionTest", { onRequest: () => true });
+      clients.B.engine.registerMethod("wc_sessionTest", {
+        isValidRequest: () => {
+          throw reason;
+        },
+        onRequest: () => true,
+      });
+      const error = await clients.A.engine
+        .sendCustomRequest({ topic, method: "wc_sessionTest", params: {} })
+        .catch(e => e);
+      expect(error).to.eql(reason);
+      deleteClients(clients);
+    });
+    it("rejects custom requests the peer has not registered", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      clients.A.engine.registerMethod("wc_sessionTest", { onRequest: () => true });
+      const error = await clients.A.engine
+        .sendCustomRequest({ topic, method: "wc_sessionTest", params: {} })
+        .catch(e => e);
+      expect(error).to.have.property("code", ERROR.UNKNOWN_JSONRPC_METHOD.code);
+      deleteClients(clients);
+    });
+  });
+
+  describe("peer validation", () => {
+    // Bypasses local validation to act like a misbehaving peer
+    async function sendRawRequest(
+      client: SignClient,
+      topic: string,
+      method: string,
+      params: Record<string, unknown>,
+    ) {
+      const payload = formatJsonRpcRequest(method, params);
+      client.history.set(topic, payload);
+      await client.core.relayer.publish(topic, client.core.crypto.encode(topic, payload));
+      return new Promise<JsonRpcRecord["response"]>(resolve => {
+        const onUpdated = (record: JsonRpcRecord) => {
+          if (record.id !== payload.id) return;
+          client.history.off("history_updated", onUpdated);
+          resolve(record.response);
+        };
+        client.history.on("history_updated", onUpdated);
+      });
+    }
+    it("rejects unknown methods", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const response = await sendRawRequest(clients.A, topic, "wc_sessionUnknown", {});
+      expect(response).to.have.nested.property("error.code", ERROR.UNKNOWN_JSONRPC_METHOD.code);
+      deleteClients(clients);
+    });
+    it("rejects requests for chains outside of the session", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const response = await sendRawRequest(clients.A, topic, "wc_sessionRequest", {
+        ...TEST_REQUEST_PARAMS,
+        chainId: "eip155:100",
+      });
+      expect(response).to.have.nested.property("error.code", ERROR.UNAUTHORIZED_TARGET_CHAIN.code);
+      deleteClients(clients);
+    });
+    it("rejects requests for methods outside of the session", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const response = await sendRawRequest(clients.A, topic, "wc_sessionRequest", {
+        ...TEST_REQUEST_PARAMS,
+        request: { method: "eth_unknownMethod", params: [] },
+      });
+      expect(response).to.have.nested.property(
+        "error.code",
+        ERROR.UNAUTHORIZED_JSON_RPC_METHOD.code,
+      );
+      deleteClients(clients);
+    });
+    it("rejects events outside of the session", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const response = await sendRawRequest(clients.B, topic, "wc_sessionEvent", {
+        ...TEST_EMIT_PARAMS,
+        event: { name: "unknownEvent", data: {} },
+      });
+      expect(response).to.have.nested.property(
+        "error.code",
+        ERROR.UNAUTHORIZED_NOTIFICATION_TYPE.code,
+      );
+      deleteClients(clients);
+    });
   });
 
   describe("extend", () => {
@@ -202,5 +1435,130 @@ describe("Sign Client Integration", () => {
       expect(expiry).to.be.greaterThanOrEqual(newExpiry);
       deleteClients(clients);
     });
+    it("extends the session on both sides by the provided ttl", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const { acknowledged } = await clients.A.extend({ topic, ttl: ONE_DAY });
+      await acknowledged();
+      const expiry = clients.A.session.get(topic).expiry;
+      expect(expiry).to.be.lessThanOrEqual(calcExpiry(ONE_DAY));
+      expect(expiry).to.be.greaterThan(calcExpiry(ONE_DAY) - 10);
+      expect(clients.B.session.get(topic).expiry).to.eql(expiry);
+      deleteClients(clients);
+    });
+  });
+
+  describe("rekey", () => {
+    it("rotates the session key pair and topic on both sides", async () => {
+      const clients = await initTwoClients();
+      const { sessionA } = await testConnectMethod(clients);
+      const { topic } = sessionA;
+      const rekeyed = new Promise<SignClientTypes.EventArguments["session_rekey"]>(resolve =>
+        clients.B.once("session_rekey", resolve),
+      );
+      const { acknowledged } = await clients.A.rekey({ topic });
+      const session = await acknowledged();
+      expect(await rekeyed).to.eql({ topic: session.topic, previousTopic: topic });
+      expect(session.topic).not.to.eql(topic);
+      expect(clients.A.session.keys).not.to.include(topic);
+      expect(clients.B.session.keys).not.to.include(topic);
+      const sessionB = clients.B.session.get(session.topic);
+      expect(sessionB.self.publicKey).to.eql(session.peer.publicKey);
+      expect(sessionB.peer.publicKey).to.eql(session.self.publicKey);
+      expect(sessionB.controller).to.eql(sessionB.self.publicKey);
+      expect(session.controller).to.eql(session.peer.publicKey);
+      expect(clients.A.core.crypto.keychain.has(sessionA.self.publicKey)).to.be.false;
+      const received = new Promise<number>(resolve => {
+        clients.B.once("session_request", ({ id }) => resolve(id));
+      });
+      const promise = clients.A.request({ topic: session.topic, ...TEST_REQUEST_PARAMS });
+      const id = await received;
+      const response = { id, jsonrpc: "2.0", result: "0x" };
+      await clients.B.respond({ topic: session.topic, response });
+      expect(await promise).to.eql("0x");
+      deleteClients(clients);
+    });
+    it("keeps the session if the rekey result can not be published", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const { relayer } = clients.B.core;
+      const { publish } = relayer;
+      relayer.publish = async () => {
+        relayer.publish = publish;
+        throw new Error("Publish failed");
+      };
+      const { acknowledged } = await clients.A.rekey({ topic });
+      await expect(acknowledged()).to.eventually.be.rejected;
+      expect(clients.A.session.keys).to.include(topic);
+      expect(clients.B.session.keys).to.include(topic);
+      expect(clients.B.session.length).to.eql(1);
+      await clients.A.ping({ topic });
+      deleteClients(clients);
+    });
+    it("deletes its key pair when the rekey is refused", async () => {
+      const clients = await initTwoClients();
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const { crypto } = clients.A.core;
+      const { generateKeyPair } = crypto;
+      let publicKey = "";
+      crypto.generateKeyPair = async () => {
+        crypto.generateKeyPair = generateKeyPair;
+        publicKey = await generateKeyPair();
+        return publicKey;
+      };
+      clients.B.core.crypto.generateKeyPair = async () => {
+        throw new Error("Key generation failed");
+      };
+      const { acknowledged } = await clients.A.rekey({ topic });
+      await expect(acknowledged()).to.eventually.be.rejected;
+      await throttle(100);
+      expect(crypto.hasKeys(publicKey)).to.be.false;
+      expect(clients.A.session.keys).to.include(topic);
+      deleteClients(clients);
+    });
+    it("routes messages on the previous topic to the session after a restart", async () => {
+      const beforeClients = await initTwoClients({
+        storageOptions: { database: TEST_SIGN_CLIENT_DATABASE },
+      });
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(beforeClients);
+      const { acknowledged } = await beforeClients.A.rekey({ topic });
+      const session = await acknowledged();
+      await throttle(500);
+      deleteClients(beforeClients);
+      const afterClients = await initTwoClients({
+        storageOptions: { database: TEST_SIGN_CLIENT_DATABASE },
+      });
+      const payload = formatJsonRpcRequest("wc_sessionPing", {});
+      const pinged = new Promise<any>(resolve => afterClients.B.once("session_ping", resolve));
+      afterClients.A.history.set(session.topic, payload);
+      const message = afterClients.A.core.crypto.encode(topic, payload);
+      await afterClients.A.core.relayer.publish(topic, message);
+      expect(await pinged).to.eql({ id: payload.id, topic: session.topic });
+      deleteClients(afterClients);
+    });
+    it("retires the previous topic after the grace period", async () => {
+      const clock = new TestClock();
+      const clients = await initTwoClients({ expirer: { clock } });
+      const {
+        sessionA: { topic },
+      } = await testConnectMethod(clients);
+      const { acknowledged } = await clients.A.rekey({ topic });
+      await acknowledged();
+      expect(clients.A.core.crypto.hasKeys(topic)).to.be.true;
+      clock.advance(clients.A.expirer.get(topic).expiry * 1000 - clock.now());
+      await throttle(500);
+      expect(clients.A.core.crypto.hasKeys(topic)).to.be.false;
+      expect(clients.B.core.crypto.hasKeys(topic)).to.be.false;
+      expect(clients.A.expirer.has(topic)).to.be.false;
+      deleteClients(clients);
+    });
   });
 });
@@ -13,6 +13,7 @@ import { Clients } from "./init";
 
 export interface TestConnectParams {
   requiredNamespaces?: ProposalTypes.RequiredNamespaces;
+  optionalNamespaces?: ProposalTypes.OptionalNamespaces;
   namespaces?: SessionTypes.Namespaces;
   relays?: RelayerTypes.ProtocolOptions[];
   pairingTopic?: string;
@@ -23,6 +24,7 @@ export async function testConnectMethod(clients: Clients, params?: TestConnectPa
 
   const connectParams: EngineTypes.ConnectParams = {
     requiredNamespaces: params?.requiredNamespaces || TEST_REQUIRED_NAMESPACES,
+    optionalNamespaces: params?.optionalNamespaces || undefined,
     relays: params?.relays || undefined,
     pairingTopic: params?.pairingTopic || undefined,
   };
@@ -58,6 +60,7 @@ export async function testConnectMethod(clients: Clients, params?: TestConnectPa
       B.once("session_proposal", async proposal => {
         try {
           expect(proposal.params.requiredNamespaces).to.eql(connectParams.requiredNamespaces);
+          expect(proposal.params.optionalNamespaces).to.eql(connectParams.optionalNamespaces);
 
           const { acknowledged } = await B.approve({
             id: proposal.id,
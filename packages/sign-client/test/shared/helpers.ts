@@ -1,6 +1,49 @@
+import { ExpirerTypes } from "@walletconnect/types";
 import SignClient from "../../src";
 
 export function deleteClients(clients: { A: SignClient; B: SignClient }) {
   delete clients.A;
   delete clients.B;
 }
+
+export async function throttle(timeout: number) {
+  return new Promise<void>(resolve => setTimeout(resolve, timeout));
+}
+
+// Clock whose time only moves when advanced, firing due timers in order
+export class TestClock implements ExpirerTypes.Clock<number> {
+  private time = Date.now();
+  private counter = 0;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+
+  public now = () => this.time;
+
+  public setTimeout = (callback: () => void, timeout: number) => {
+    const timer = ++this.counter;
+    this.timers.set(timer, { at: this.time + timeout, callback });
+    return timer;
+  };
+
+  public clearTimeout = (timer: number) => {
+    this.timers.delete(timer);
+  };
+
+  public advance(ms: number) {
+    const target = this.time + ms;
+    let next = this.nextTimer(target);
+    while (next) {
+      const [timer, { at, callback }] = next;
+      this.timers.delete(timer);
+      this.time = at;
+      callback();
+      next = this.nextTimer(target);
+    }
+    this.time = target;
+  }
+
+  private nextTimer(target: number) {
+    return Array.from(this.timers.entries())
+      .filter(([, { at }]) => at <= target)
+      .sort(([, a], [, b]) => a.at - b.at)[0];
+  }
+}
@@ -81,7 +81,12 @@ export const TEST_ETHEREUM_ADDRESS = "0x3c582121909DE92Dc89A36898633C1aE4790382b
 
 export const TEST_ETHEREUM_ACCOUNT = `${TEST_ETHEREUM_CHAIN}:${TEST_ETHEREUM_ADDRESS}`;
 
-export const TEST_ACCOUNTS = [TEST_ETHEREUM_ACCOUNT];
+export const TEST_ARBITRUM_ACCOUNT = `${TEST_ARBITRUM_CHAIN}:${TEST_ETHEREUM_ADDRESS}`;
+
+export const TEST_AVALANCHE_ACCOUNT = `${TEST_AVALANCHE_CHAIN}:${TEST_ETHEREUM_ADDRESS}`;
+
+// every required chain needs an approved account
+export const TEST_ACCOUNTS = [TEST_ETHEREUM_ACCOUNT, TEST_ARBITRUM_ACCOUNT, TEST_AVALANCHE_ACCOUNT];
 
 export const TEST_REQUIRED_NAMESPACES = {
   eip155: {
@@ -99,6 +104,18 @@ export const TEST_NAMESPACES = {
   },
 };
 
+export const TEST_COSMOS_CHAIN = "cosmos:cosmoshub-4";
+
+export const TEST_COSMOS_ACCOUNT = `${TEST_COSMOS_CHAIN}:cosmos1t2uflqwqe0fsj0shcfkrvpukewcw40yjj6hdc0`;
+
+export const TEST_OPTIONAL_NAMESPACES = {
+  cosmos: {
+    methods: ["cosmos_signDirect"],
+    chains: [TEST_COSMOS_CHAIN],
+    events: [],
+  },
+};
+
 export const TEST_MESSAGE = "My name is John Doe";
 export const TEST_SIGNATURE =
   "0xc8906b32c9f74d0805226ffff5ecd6897ea55cdf58f54a53a2e5b5d5a21fb67f43ef1d4c2ed790a724a1549b4cc40137403048c4aed9825cfd5ba6c1d15bd0721c";
@@ -13,8 +13,12 @@ import {
   TEST_RESPOND_PARAMS,
   TEST_NAMESPACES,
   TEST_REQUIRED_NAMESPACES,
+  TEST_SIGN_CLIENT_OPTIONS_A,
+  TEST_APP_METADATA_A,
 } from "./shared";
-import SignClient from "../src";
+import SignClient, { SESSION_MAX_TTL } from "../src";
+
+const TEST_URI_TOPIC = "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
 
 let client: SignClient;
 let pairingTopic: string;
@@ -30,6 +34,16 @@ describe("Sign Client Validation", () => {
   });
 
   describe("connect", () => {
+    it("throws when the metadata redirect is invalid", async () => {
+      const invalid = await SignClient.init({
+        ...TEST_SIGN_CLIENT_OPTIONS_A,
+        metadata: { ...TEST_APP_METADATA_A, redirect: { native: "" } },
+      });
+      await expect(
+        invalid.connect({ requiredNamespaces: TEST_REQUIRED_NAMESPACES }),
+      ).to.eventually.be.rejectedWith("Missing or invalid connect metadata redirect");
+    });
+
     it("throws when no params are passed", async () => {
       await expect(client.connect()).to.eventually.be.rejectedWith(
         "Missing or invalid connect params",
@@ -108,6 +122,16 @@ describe("Sign Client Validation", () => {
         }),
       ).to.eventually.be.rejectedWith("Missing or invalid connect requiredNamespaces");
     });
+
+    it("throws when invalid optionalNamespaces are provided", async () => {
+      await expect(
+        client.connect({
+          ...TEST_CONNECT_PARAMS,
+          pairingTopic,
+          optionalNamespaces: { ...TEST_REQUIRED_NAMESPACES, extension: { invalid: [""] } },
+        }),
+      ).to.eventually.be.rejectedWith("Missing or invalid connect optionalNamespaces");
+    });
   });
 
   describe("pair", () => {
@@ -132,6 +156,20 @@ describe("Sign Client Validation", () => {
         "Missing or invalid pair uri",
       );
     });
+
+    it("throws when uri is missing symKey", async () => {
+      await expect(
+        client.pair({ uri: `wc:${TEST_URI_TOPIC}@2?relay-protocol=iridium` }),
+      ).to.eventually.be.rejectedWith("Missing or invalid uri symKey");
+    });
+
+    it("throws when uri is expired", async () => {
+      await expect(
+        client.pair({
+          uri: `wc:${TEST_URI_TOPIC}@2?expiryTimestamp=1&relay-protocol=iridium&symKey=${TEST_URI_TOPIC}`,
+        }),
+      ).to.eventually.be.rejectedWith("Pairing expired");
+    });
   });
 
   describe("approve", () => {
@@ -221,6 +259,24 @@ describe("Sign Client Validation", () => {
         client.approve({ ...TEST_APPROVE_PARAMS, relayProtocol: "" }),
       ).to.eventually.be.rejectedWith("Missing or invalid approve relayProtocol");
     });
+
+    it("throws when invalid ttl is provided", async () => {
+      await expect(
+        client.approve({ ...TEST_APPROVE_PARAMS, ttl: "300" }),
+      ).to.eventually.be.rejectedWith("Missing or invalid approve ttl");
+    });
+
+    it("throws when ttl exceeds the maximum", async () => {
+      await expect(
+        client.approve({ ...TEST_APPROVE_PARAMS, ttl: SESSION_MAX_TTL + 1 }),
+      ).to.eventually.be.rejectedWith("Missing or invalid approve ttl");
+    });
+
+    it("throws when no proposal matches the id", async () => {
+      await expect(client.approve(TEST_APPROVE_PARAMS)).to.eventually.be.rejectedWith(
+        "No matching proposal with id: 123",
+      );
+    });
   });
 
   describe("reject", () => {
@@ -401,6 +457,36 @@ describe("Sign Client Validation", () => {
         "No matching session with topic: none",
       );
     });
+
+    it("throws when non positive ttl is provided", async () => {
+      await expect(client.extend({ topic, ttl: 0 })).to.eventually.be.rejectedWith(
+        "Missing or invalid extend ttl",
+      );
+    });
+
+    it("throws when ttl exceeds the maximum", async () => {
+      await expect(
+        client.extend({ topic, ttl: SESSION_MAX_TTL + 1 }),
+      ).to.eventually.be.rejectedWith("Missing or invalid extend ttl");
+    });
+  });
+
+  describe("rekey", () => {
+    it("throws when no params are passed", async () => {
+      await expect(client.rekey()).to.eventually.be.rejectedWith("Missing or invalid rekey params");
+    });
+
+    it("throws when invalid topic is provided", async () => {
+      await expect(client.rekey({ topic: 123 })).to.eventually.be.rejectedWith(
+        "Missing or invalid session topic",
+      );
+    });
+
+    it("throws when non existant topic is provided", async () => {
+      await expect(client.rekey({ topic: "none" })).to.eventually.be.rejectedWith(
+        "No matching session with topic: none",
+      );
+    });
   });
 
   describe("request", () => {
@@ -493,6 +579,18 @@ describe("Sign Client Validation", () => {
         client.request({ ...TEST_REQUEST_PARAMS, topic, request: { method: "unknown" } }),
       ).to.eventually.be.rejectedWith("Missing or invalid request method");
     });
+
+    it("throws when invalid expiry is provided", async () => {
+      await expect(
+        client.request({ ...TEST_REQUEST_PARAMS, topic, expiry: "300" }),
+      ).to.eventually.be.rejectedWith("Missing or invalid request expiry");
+    });
+
+    it("throws when non positive expiry is provided", async () => {
+      await expect(
+        client.request({ ...TEST_REQUEST_PARAMS, topic, expiry: 0 }),
+      ).to.eventually.be.rejectedWith("Missing or invalid request expiry");
+    });
   });
 
   describe("respond", () => {
@@ -722,4 +820,82 @@ describe("Sign Client Validation", () => {
       );
     });
   });
+
+  describe("updatePairing", () => {
+    it("throws when no params are passed", async () => {
+      await expect(client.updatePairing()).to.eventually.be.rejectedWith(
+        "Missing or invalid updatePairing params",
+      );
+    });
+
+    it("throws when non existant topic is provided", async () => {
+      await expect(
+        client.updatePairing({ topic: "none", label: "label" }),
+      ).to.eventually.be.rejectedWith("No matching pairing with topic: none");
+    });
+
+    it("throws when empty label is provided", async () => {
+      await expect(
+        client.updatePairing({ topic: pairingTopic, label: "" }),
+      ).to.eventually.be.rejectedWith("Missing or invalid updatePairing label");
+    });
+  });
+
+  describe("querySessions", () => {
+    it("throws when invalid params are provided", () => {
+      expect(() => client.querySessions("eip155")).to.throw(
+        "Missing or invalid querySessions params",
+      );
+    });
+
+    it("throws when invalid requiredNamespaces are provided", () => {
+      expect(() => client.querySessions({ requiredNamespaces: {} })).to.throw(
+        "Missing or invalid querySessions requiredNamespaces",
+      );
+    });
+
+    it("throws when invalid expiry bounds are provided", () => {
+      expect(() => client.querySessions({ expiry: { from: "1" } })).to.throw(
+        "Missing or invalid querySessions expiry",
+      );
+    });
+  });
+
+  describe("registerMethod", () => {
+    it("throws when a protocol method is provided", () => {
+      expect(() => client.engine.registerMethod("wc_sessionRequest", { onRequest: () => true }))
+        .to.throw()
+        .with.property("message", "Missing or invalid registerMethod method");
+    });
+
+    it("throws when the method is already registered", () => {
+      client.engine.registerMethod("wc_validationTest", { onRequest: () => true });
+      expect(() => client.engine.registerMethod("wc_validationTest", { onRequest: () => true }))
+        .to.throw()
+        .with.property(
+          "message",
+          "Record already exists for custom method matching id: wc_validationTest",
+        );
+    });
+  });
+
+  describe("sendCustomRequest", () => {
+    it("throws when no params are passed", async () => {
+      await expect(client.engine.sendCustomRequest()).to.eventually.be.rejectedWith(
+        "Missing or invalid sendCustomRequest params",
+      );
+    });
+
+    it("throws when non existant topic is provided", async () => {
+      await expect(
+        client.engine.sendCustomRequest({ topic: "none", method: "wc_validationTest", params: {} }),
+      ).to.eventually.be.rejectedWith("Missing or invalid topic");
+    });
+
+    it("throws when the method is not registered", async () => {
+      await expect(
+        client.engine.sendCustomRequest({ topic, method: "wc_unregistered", params: {} }),
+      ).to.eventually.be.rejectedWith("Unknown JSON-RPC Method Requested: wc_unregistered");
+    });
+  });
 });
@@ -195,52 +195,33 @@ export class SignerConnection extends IJsonRpcConnection {
 
   private registerEventListeners() {
     if (typeof this.client === "undefined") return;
-    // TODO(pedro) - add event handlers to ISignClient interface
-    // @ts-ignore
-    this.client.on(
-      "session_created",
-      // TODO(pedro) - add session created event
-      (session: SessionTypes.Struct) => {
-        if (this.session && this.session?.topic !== session.topic) return;
-        this.session = session;
-        this.events.emit(SIGNER_EVENTS.created, session);
-      },
-    );
-    // TODO(pedro) - add event handlers to ISignClient interface
-    // @ts-ignore
-    this.client.on(
-      "session_updated",
-      // TODO(pedro) - add session updated event
-      (session: SessionTypes.Struct) => {
-        if (this.session && this.session?.topic !== session.topic) return;
-        this.session = session;
-        this.events.emit(SIGNER_EVENTS.updated, session);
-      },
-    );
-    // TODO(pedro) - add event handlers to ISignClient interface
-    // @ts-ignore
-    this.client.on(
-      "session_event",
-      // TODO(pedro) - add session event event
-      (sessionEvent: any) => {
-        if (this.session && this.session?.topic !== sessionEvent.topic) return;
-        this.events.emit(SIGNER_EVENTS.event, sessionEvent.event);
-      },
-    );
-    // TODO(pedro) - add event handlers to ISignClient interface
-    // @ts-ignore
-    this.client.on(
-      // TODO(pedro) - add session deleted event
-      "session_deleted",
-      (session: SessionTypes.Struct) => {
-        if (!this.session) return;
-        if (this.session && this.session?.topic !== session.topic) return;
-        this.onClose();
-
-        this.events.emit(SIGNER_EVENTS.deleted, session);
-        this.session = undefined;
-      },
-    );
+    this.client.on("session_created", ({ session }) => {
+      if (this.session && this.session?.topic !== session.topic) return;
+      this.session = session;
+      this.events.emit(SIGNER_EVENTS.created, session);
+    });
+    this.client.on("session_updated", ({ session }) => {
+      if (this.session && this.session?.topic !== session.topic) return;
+      this.session = session;
+      this.events.emit(SIGNER_EVENTS.updated, session);
+    });
+    this.client.on("session_rekey", ({ topic, previousTopic }) => {
+      if (!this.client || this.session?.topic !== previousTopic) return;
+      this.session = this.client.session.get(topic);
+      this.events.emit(SIGNER_EVENTS.updated, this.session);
+    });
+    this.client.on("session_event", ({ topic, params }) => {
+      if (this.session && this.session?.topic !== topic) return;
+      this.events.emit(SIGNER_EVENTS.event, params.event);
+    });
+    this.client.on("session_deleted", ({ session }) => {
+      if (!this.session) return;
+      if (this.session && this.session?.topic !== session.topic) return;
+      this.onClose();
+
+      this.events.emit(SIGNER_EVENTS.deleted, session);
+      this.session = undefined;
+    });
   }
 }
 
@@ -3,7 +3,7 @@ import { IEvents } from "@walletconnect/events";
 import { IHeartBeat } from "@walletconnect/heartbeat";
 import { IKeyValueStorage, KeyValueStorageOptions } from "@walletconnect/keyvaluestorage";
 
-import { ICrypto } from "./crypto";
+import { CryptoTypes, ICrypto } from "./crypto";
 import { IRelayer } from "./relayer";
 import { IKeyChain } from "./keychain";
 
@@ -15,6 +15,7 @@ export declare namespace CoreTypes {
     logger?: string | Logger;
     keychain?: IKeyChain;
     storageOptions?: KeyValueStorageOptions;
+    compression?: CryptoTypes.CompressionOptions;
   }
 }
 
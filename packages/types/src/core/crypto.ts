@@ -17,16 +17,53 @@ export declare namespace CryptoTypes {
     message: string;
     symKey: string;
     iv?: string;
+    compression?: string;
+    type?: number;
+    // required for type 1 envelopes
+    senderPublicKey?: string;
   }
 
   export interface DecryptParams {
     symKey: string;
     encoded: string;
+    type?: number;
+    // compression negotiated for the topic, compressed messages are rejected without it
+    compression?: string;
+    // maximum size in bytes of an inflated message
+    maxSize?: number;
   }
 
   export interface EncodingParams {
+    type?: number;
+    compressed?: boolean;
     sealed: Uint8Array;
     iv: Uint8Array;
+    senderPublicKey?: Uint8Array;
+  }
+
+  export interface CompressionOptions {
+    enabled?: boolean;
+    // minimum message length in characters before compressing
+    threshold?: number;
+    // maximum size in bytes of an inflated message
+    maxSize?: number;
+  }
+
+  export interface EncodeOptions {
+    compression?: string;
+    type?: number;
+    // type 1 envelopes are sealed with a key derived from these key pairs
+    senderPublicKey?: string;
+    receiverPublicKey?: string;
+  }
+
+  export interface DecodeOptions {
+    // own public key a type 1 envelope was sent to
+    receiverPublicKey?: string;
+    // only type 1 envelopes from this public key are accepted when set
+    senderPublicKey?: string;
+    // compression negotiated for the topic
+    compression?: string;
   }
 }
 
@@ -37,6 +74,8 @@ export abstract class ICrypto {
 
   public abstract keychain: IKeyChain;
 
+  public abstract compression: Required<CryptoTypes.CompressionOptions>;
+
   constructor(
     public core: ICore,
     public logger: Logger,
@@ -62,11 +101,21 @@ export abstract class ICrypto {
 
   public abstract deleteSymKey(topic: string): Promise<void>;
 
-  public abstract encrypt(topic: string, message: string): string;
+  public abstract getSupportedCompression(): string[];
+
+  public abstract encrypt(topic: string, message: string, compression?: string): string;
 
-  public abstract decrypt(topic: string, encoded: string): string;
+  public abstract decrypt(topic: string, encoded: string, compression?: string): string;
 
-  public abstract encode(topic: string, payload: JsonRpcPayload): string;
+  public abstract encode(
+    topic: string,
+    payload: JsonRpcPayload,
+    opts?: CryptoTypes.EncodeOptions,
+  ): string;
 
-  public abstract decode(topic: string, encoded: string): JsonRpcPayload;
+  public abstract decode(
+    topic: string,
+    encoded: string,
+    opts?: CryptoTypes.DecodeOptions,
+  ): JsonRpcPayload;
 }
@@ -51,4 +51,6 @@ export abstract class IJsonRpcHistory extends IEvents {
   public abstract delete(topic: string, id?: number): void;
 
   public abstract exists(topic: string, id: number): Promise<boolean>;
+
+  public abstract move(topic: string, newTopic: string): void;
 }
@@ -19,6 +19,7 @@ export abstract class IStore<Key, Value> {
     public name: string,
     // @ts-ignore
     storagePrefix?: string,
+    public getKey?: (data: Value) => Key,
   ) {}
 
   public abstract init(): Promise<void>;
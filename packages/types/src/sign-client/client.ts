@@ -1,26 +1,40 @@
 import EventEmmiter from "events";
+import { ErrorResponse } from "@walletconnect/jsonrpc-types";
 import { Logger } from "pino";
 import { IEngine } from "./engine";
-import { IPairing } from "./pairing";
+import { IPairing, PairingTypes } from "./pairing";
+import { IPendingRequest, PendingRequestTypes } from "./pendingRequest";
 import { IProposal, ProposalTypes } from "./proposal";
 import { ISession, SessionTypes } from "./session";
 import { IJsonRpcHistory } from "../core/history";
 import { CoreTypes, ICore } from "../core/core";
-import { IExpirer } from "./expirer";
+import { ExpirerTypes, IExpirer } from "./expirer";
 
 export declare namespace SignClientTypes {
   type Event =
     | "session_proposal"
     | "session_update"
     | "session_extend"
+    | "session_rekey"
     | "session_ping"
     | "pairing_ping"
     | "session_delete"
     | "pairing_delete"
     | "session_expire"
     | "pairing_expire"
+    | "proposal_expire"
+    | "request_expire"
     | "session_request"
-    | "session_event";
+    | "session_event"
+    | "session_created"
+    | "session_updated"
+    | "session_deleted"
+    | "pending_requests"
+    | "pairing_created"
+    | "session_peer_reachable"
+    | "session_peer_unreachable"
+    | "session_auto_extend"
+    | "session_auto_extend_failure";
 
   interface BaseEventArgs<T = unknown> {
     id: number;
@@ -30,14 +44,19 @@ export declare namespace SignClientTypes {
 
   interface EventArguments {
     session_proposal: Omit<BaseEventArgs<ProposalTypes.Struct>, "topic">;
-    session_update: BaseEventArgs<{ namespaces: SessionTypes.Namespaces }>;
+    session_update: BaseEventArgs<
+      { namespaces: SessionTypes.Namespaces } & SessionTypes.NamespacesDiff
+    >;
     session_extend: Omit<BaseEventArgs, "params">;
+    session_rekey: { topic: string; previousTopic: string };
     session_ping: Omit<BaseEventArgs, "params">;
     pairing_ping: Omit<BaseEventArgs, "params">;
     session_delete: Omit<BaseEventArgs, "params">;
     pairing_delete: Omit<BaseEventArgs, "params">;
     session_expire: { topic: string };
     pairing_expire: { topic: string };
+    proposal_expire: { id: number };
+    request_expire: { id: number; topic: string };
     session_request: BaseEventArgs<{
       request: { method: string; params: any };
       chainId: string;
@@ -46,6 +65,15 @@ export declare namespace SignClientTypes {
       event: { name: string; data: any };
       chainId: string;
     }>;
+    session_created: { session: SessionTypes.Struct };
+    session_updated: { session: SessionTypes.Struct };
+    session_deleted: { session: SessionTypes.Struct; reason: ErrorResponse };
+    pending_requests: { requests: PendingRequestTypes.Struct[] };
+    pairing_created: { pairing: PairingTypes.Struct };
+    session_peer_reachable: { topic: string; latency: number };
+    session_peer_unreachable: { topic: string };
+    session_auto_extend: { topic: string; ttl: number };
+    session_auto_extend_failure: { topic: string; error: ErrorResponse };
   }
 
   type Metadata = {
@@ -53,11 +81,49 @@ export declare namespace SignClientTypes {
     description: string;
     url: string;
     icons: string[];
+    redirect?: Redirect;
   };
 
+  // where peers send the user back to, a native scheme (e.g. "myapp://") and/or a universal link
+  interface Redirect {
+    native?: string;
+    universal?: string;
+  }
+
+  // time to live in seconds
+  interface Ttl {
+    session: number;
+    // applies once the pairing is activated by an approved proposal
+    pairing: number;
+    // applies to new pairings until they are activated
+    inactivePairing: number;
+    proposal: number;
+  }
+
+  // peer ping interval and response timeout in seconds
+  interface Liveness {
+    interval: number;
+    timeout: number;
+  }
+
+  // extends sessions expiring within threshold that were active within activity, in seconds
+  interface AutoExtend {
+    threshold: number;
+    activity: number;
+    ttl?: number;
+  }
+
   interface Options extends CoreTypes.Options {
     core?: ICore;
     metadata?: Metadata;
+    ttl?: Partial<Ttl>;
+    // deletes the sessions and proposals of a pairing along with it, telling the session peers
+    cascadePairingDelete?: boolean;
+    // pings session peers periodically when set
+    liveness?: Partial<Liveness>;
+    // extends controlled sessions automatically when set
+    autoExtend?: Partial<AutoExtend>;
+    expirer?: ExpirerTypes.Options;
   }
 }
 
@@ -99,6 +165,7 @@ export abstract class ISignClient {
   public abstract readonly name: string;
   public abstract readonly context: string;
   public abstract readonly metadata: SignClientTypes.Metadata;
+  public abstract readonly ttl: SignClientTypes.Ttl;
 
   public abstract core: ICore;
   public abstract logger: Logger;
@@ -107,21 +174,33 @@ export abstract class ISignClient {
   public abstract pairing: IPairing;
   public abstract session: ISession;
   public abstract proposal: IProposal;
+  public abstract pendingRequest: IPendingRequest;
   public abstract history: IJsonRpcHistory;
   public abstract expirer: IExpirer;
 
   constructor(public opts?: SignClientTypes.Options) {}
 
+  public abstract on: ISignClientEvents["on"];
+  public abstract once: ISignClientEvents["once"];
+  public abstract off: ISignClientEvents["off"];
+  public abstract removeListener: ISignClientEvents["removeListener"];
+
   public abstract connect: IEngine["connect"];
   public abstract pair: IEngine["pair"];
   public abstract approve: IEngine["approve"];
   public abstract reject: IEngine["reject"];
   public abstract update: IEngine["update"];
   public abstract extend: IEngine["extend"];
+  public abstract rekey: IEngine["rekey"];
   public abstract request: IEngine["request"];
   public abstract respond: IEngine["respond"];
   public abstract ping: IEngine["ping"];
   public abstract emit: IEngine["emit"];
   public abstract disconnect: IEngine["disconnect"];
   public abstract find: IEngine["find"];
+
+  public abstract querySessions: IEngine["querySessions"];
+  public abstract getPendingSessionRequests: IEngine["getPendingSessionRequests"];
+  public abstract getPairings: IEngine["getPairings"];
+  public abstract updatePairing: IEngine["updatePairing"];
 }
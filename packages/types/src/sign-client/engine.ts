@@ -5,11 +5,13 @@ import {
   JsonRpcResult,
   JsonRpcError,
 } from "@walletconnect/jsonrpc-types";
-import { ISignClient } from "./client";
+import { ISignClient, SignClientTypes } from "./client";
 import { RelayerTypes } from "../core/relayer";
+import { CryptoTypes } from "../core/crypto";
 import { SessionTypes } from "./session";
 import { ProposalTypes } from "./proposal";
 import { PairingTypes } from "./pairing";
+import { PendingRequestTypes } from "./pendingRequest";
 import { JsonRpcTypes } from "./jsonrpc";
 import { EventEmitter } from "events";
 
@@ -19,18 +21,22 @@ export declare namespace EngineTypes {
     | "session_approve"
     | "session_update"
     | "session_extend"
+    | "session_rekey"
     | "session_ping"
     | "pairing_ping"
-    | "session_request";
+    | "session_request"
+    | "custom_request";
 
   interface EventArguments {
     session_connect: { error?: ErrorResponse; session?: SessionTypes.Struct };
     session_approve: { error?: ErrorResponse };
     session_update: { error?: ErrorResponse };
     session_extend: { error?: ErrorResponse };
+    session_rekey: { error?: ErrorResponse; session?: SessionTypes.Struct };
     session_ping: { error?: ErrorResponse };
     pairing_ping: { error?: ErrorResponse };
     session_request: { error?: ErrorResponse; result?: any };
+    custom_request: { error?: ErrorResponse; result?: any };
   }
 
   interface UriParameters {
@@ -39,6 +45,8 @@ export declare namespace EngineTypes {
     topic: string;
     symKey: string;
     relay: RelayerTypes.ProtocolOptions;
+    expiryTimestamp?: number;
+    methods?: string[];
   }
 
   interface EventCallback<T extends JsonRpcRequest | JsonRpcResponse> {
@@ -48,6 +56,7 @@ export declare namespace EngineTypes {
 
   interface ConnectParams {
     requiredNamespaces: ProposalTypes.RequiredNamespaces;
+    optionalNamespaces?: ProposalTypes.OptionalNamespaces;
     pairingTopic?: string;
     relays?: RelayerTypes.ProtocolOptions[];
   }
@@ -60,6 +69,7 @@ export declare namespace EngineTypes {
     id: number;
     namespaces: SessionTypes.Namespaces;
     relayProtocol?: string;
+    ttl?: number;
   }
 
   interface RejectParams {
@@ -74,6 +84,11 @@ export declare namespace EngineTypes {
 
   interface ExtendParams {
     topic: string;
+    ttl?: number;
+  }
+
+  interface RekeyParams {
+    topic: string;
   }
 
   interface RequestParams {
@@ -83,6 +98,8 @@ export declare namespace EngineTypes {
       params: any;
     };
     chainId: string;
+    expiry?: number;
+    signal?: AbortSignal;
   }
 
   interface RespondParams {
@@ -108,11 +125,71 @@ export declare namespace EngineTypes {
     reason: ErrorResponse;
   }
 
+  interface UpdatePairingParams {
+    topic: string;
+    label: string;
+  }
+
   interface FindParams {
     requiredNamespaces: ProposalTypes.RequiredNamespaces;
   }
 
+  // every provided criterion has to match, expiry bounds are inclusive and in seconds
+  interface QuerySessionsParams {
+    requiredNamespaces?: ProposalTypes.RequiredNamespaces;
+    peer?: { url?: string; name?: string };
+    chain?: string;
+    account?: string;
+    method?: string;
+    event?: string;
+    expiry?: { from?: number; to?: number };
+    acknowledged?: boolean;
+  }
+
   type AcknowledgedPromise = Promise<{ acknowledged: () => Promise<void> }>;
+
+  interface SessionRequestMiddlewareArgs {
+    id: number;
+    topic: string;
+    params: JsonRpcTypes.RequestParams["wc_sessionRequest"];
+    session: SessionTypes.Struct;
+  }
+
+  type SessionRequestMiddlewareOutcome =
+    // replaces the request params for the following middlewares and listeners
+    | { type: "params"; params: JsonRpcTypes.RequestParams["wc_sessionRequest"] }
+    // answers the request, skipping the following middlewares and listeners
+    | { type: "response"; response: JsonRpcResult | JsonRpcError };
+
+  interface CustomRequestParams<P = any> {
+    topic: string;
+    method: string;
+    params: P;
+  }
+
+  interface CustomMethodRequest<P = any> {
+    id: number;
+    topic: string;
+    params: P;
+  }
+
+  interface CustomMethodResponse<R = any> {
+    id: number;
+    topic: string;
+    result?: R;
+    error?: ErrorResponse;
+  }
+
+  interface CustomMethodHandler<P = any, R = any> {
+    // throws an ErrorResponse to reject the request before it is handled
+    isValidRequest?: (request: CustomMethodRequest<P>) => void | Promise<void>;
+    onRequest: (request: CustomMethodRequest<P>) => R | Promise<R>;
+    onResponse?: (response: CustomMethodResponse<R>) => void;
+  }
+
+  type SessionRequestMiddleware = (
+    args: SessionRequestMiddlewareArgs,
+  ) => SessionRequestMiddlewareOutcome | void | Promise<SessionRequestMiddlewareOutcome | void>;
 }
 
 export abstract class IEngineEvents extends EventEmitter {
@@ -134,10 +211,11 @@ export abstract class IEngineEvents extends EventEmitter {
 // -- private method interface -------------------------------------- //
 
 export interface EnginePrivate {
-  sendRequest<M extends JsonRpcTypes.WcMethod>(
+  // custom methods registered through registerMethod carry params outside of the RPC type model
+  sendRequest<M extends string>(
     topic: string,
     method: M,
-    params: JsonRpcTypes.RequestParams[M],
+    params: M extends JsonRpcTypes.WcMethod ? JsonRpcTypes.RequestParams[M] : unknown,
   ): Promise<number>;
 
   sendResult<M extends JsonRpcTypes.WcMethod>(
@@ -148,18 +226,69 @@ export interface EnginePrivate {
 
   sendError(id: number, topic: string, error: JsonRpcTypes.Error): Promise<void>;
 
+  sendResponse(id: number, topic: string, response: JsonRpcResult | JsonRpcError): Promise<void>;
+
+  expireRequest(id: number, reason: ErrorResponse): Promise<void>;
+
   onRelayEventRequest(event: EngineTypes.EventCallback<JsonRpcRequest>): void;
 
   onRelayEventResponse(event: EngineTypes.EventCallback<JsonRpcResponse>): Promise<void>;
 
   activatePairing(topic: string): Promise<void>;
 
-  deleteSession(topic: string): Promise<void>;
+  setPairingMetadata(topic: string, metadata: SignClientTypes.Metadata): Promise<void>;
+
+  deleteSession(topic: string, reason?: ErrorResponse): Promise<void>;
+
+  deletePairing(topic: string, reason?: ErrorResponse, notify?: boolean): Promise<void>;
 
-  deletePairing(topic: string): Promise<void>;
+  deletePairingDependents(topic: string, reason: ErrorResponse): Promise<void>;
+
+  cancelProposal(id: number, reason: ErrorResponse): Promise<void>;
+
+  deleteProposal(id: number): Promise<void>;
+
+  deletePendingRequest(id: number): Promise<void>;
 
   setExpiry(topic: string, expiry: number): Promise<void>;
 
+  setProposalExpiry(id: number, topic: string, expiry: number): void;
+
+  setRequestExpiry(id: number, topic: string, expiry: number): void;
+
+  setAutoExtendExpiry(topic: string): void;
+
+  onRequestExpire(id: number, topic: string): Promise<void>;
+
+  setSessionActivity(topic: string, method?: string): Promise<void>;
+
+  migrateSession(
+    topic: string,
+    newTopic: string,
+    selfPublicKey: string,
+    peerPublicKey: string,
+  ): Promise<SessionTypes.Struct>;
+
+  getRekeyedTopic(topic: string): string;
+
+  retireTopic(topic: string): Promise<void>;
+
+  negotiateCompression(compression?: string[]): string | undefined;
+
+  getCompression(topic: string): string | undefined;
+
+  getEnvelopeKeys(
+    topic: string,
+  ): Pick<CryptoTypes.DecodeOptions, "receiverPublicKey" | "senderPublicKey">;
+
+  checkLiveness(): Promise<void>;
+
+  checkSessionLiveness(topic: string, timeout: number): Promise<void>;
+
+  checkAutoExtension(topic: string): Promise<void>;
+
+  autoExtendSession(topic: string, ttl: number): Promise<void>;
+
   cleanup(): Promise<void>;
 
   onSessionProposeRequest(
@@ -202,6 +331,16 @@ export interface EnginePrivate {
     payload: JsonRpcResult<JsonRpcTypes.Results["wc_sessionExtend"]> | JsonRpcError,
   ): void;
 
+  onSessionRekeyRequest(
+    topic: string,
+    payload: JsonRpcRequest<JsonRpcTypes.RequestParams["wc_sessionRekey"]>,
+  ): Promise<void>;
+
+  onSessionRekeyResponse(
+    topic: string,
+    payload: JsonRpcResult<JsonRpcTypes.Results["wc_sessionRekey"]> | JsonRpcError,
+  ): Promise<void>;
+
   onSessionPingRequest(
     topic: string,
     payload: JsonRpcRequest<JsonRpcTypes.RequestParams["wc_sessionPing"]>,
@@ -237,16 +376,29 @@ export interface EnginePrivate {
     payload: JsonRpcRequest<JsonRpcTypes.RequestParams["wc_sessionRequest"]>,
   ): Promise<void>;
 
+  runSessionRequestMiddlewares(
+    args: EngineTypes.SessionRequestMiddlewareArgs,
+  ): Promise<{
+    params: JsonRpcTypes.RequestParams["wc_sessionRequest"];
+    response?: JsonRpcResult | JsonRpcError;
+  }>;
+
   onSessionRequestResponse(
     topic: string,
     payload: JsonRpcResult<JsonRpcTypes.Results["wc_sessionRequest"]> | JsonRpcError,
-  ): void;
+  ): Promise<void>;
 
   onSessionEventRequest(
     topic: string,
     payload: JsonRpcRequest<JsonRpcTypes.RequestParams["wc_sessionEvent"]>,
   ): Promise<void>;
 
+  onUnknownRequest(topic: string, payload: JsonRpcRequest): Promise<void>;
+
+  onCustomRequest(topic: string, payload: JsonRpcRequest): Promise<void>;
+
+  onCustomResponse(topic: string, payload: JsonRpcResult | JsonRpcError): Promise<void>;
+
   // -- Validators ---------------------------------------------------- //
   isValidConnect(params: EngineTypes.ConnectParams): Promise<void>;
 
@@ -254,12 +406,16 @@ export interface EnginePrivate {
 
   isValidApprove(params: EngineTypes.ApproveParams): void;
 
+  isValidSessionSettleRequest(params: JsonRpcTypes.RequestParams["wc_sessionSettle"]): void;
+
   isValidReject(params: EngineTypes.RejectParams): void;
 
   isValidUpdate(params: EngineTypes.UpdateParams): Promise<void>;
 
   isValidExtend(params: EngineTypes.ExtendParams): Promise<void>;
 
+  isValidRekey(params: EngineTypes.RekeyParams): Promise<void>;
+
   isValidRequest(params: EngineTypes.RequestParams): Promise<void>;
 
   isValidRespond(params: EngineTypes.RespondParams): Promise<void>;
@@ -269,6 +425,22 @@ export interface EnginePrivate {
   isValidEmit(params: EngineTypes.EmitParams): Promise<void>;
 
   isValidDisconnect(params: EngineTypes.DisconnectParams): Promise<void>;
+
+  isValidUpdatePairing(params: EngineTypes.UpdatePairingParams): Promise<void>;
+
+  isValidQuerySessions(params: EngineTypes.QuerySessionsParams): void;
+
+  isValidMetadata(metadata: SignClientTypes.Metadata, context: string): void;
+
+  isValidCustomRequest(params: EngineTypes.CustomRequestParams): Promise<void>;
+
+  isAuthorizedRequest(params: EngineTypes.RequestParams): Promise<void>;
+
+  isAuthorizedEmit(params: EngineTypes.EmitParams): Promise<void>;
+
+  isValidSessionTtl(ttl: number): boolean;
+
+  isValidSessionExpiry(expiry: number): boolean;
 }
 
 // -- class interface ----------------------------------------------- //
@@ -294,6 +466,10 @@ export abstract class IEngine {
 
   public abstract extend(params: EngineTypes.ExtendParams): EngineTypes.AcknowledgedPromise;
 
+  public abstract rekey(
+    params: EngineTypes.RekeyParams,
+  ): Promise<{ acknowledged: () => Promise<SessionTypes.Struct> }>;
+
   public abstract request<T>(params: EngineTypes.RequestParams): Promise<T>;
 
   public abstract respond(params: EngineTypes.RespondParams): Promise<void>;
@@ -305,4 +481,28 @@ export abstract class IEngine {
   public abstract disconnect(params: EngineTypes.DisconnectParams): Promise<void>;
 
   public abstract find: (params: EngineTypes.FindParams) => SessionTypes.Struct[];
+
+  public abstract querySessions: (
+    params?: EngineTypes.QuerySessionsParams,
+  ) => SessionTypes.Struct[];
+
+  public abstract getPendingSessionRequests: () => PendingRequestTypes.Struct[];
+
+  public abstract getPairings: () => PairingTypes.Struct[];
+
+  public abstract updatePairing: (params: EngineTypes.UpdatePairingParams) => Promise<void>;
+
+  public abstract registerMethod: <P = any, R = any>(
+    method: string,
+    handler: EngineTypes.CustomMethodHandler<P, R>,
+  ) => void;
+
+  public abstract sendCustomRequest: <P = any, R = any>(
+    params: EngineTypes.CustomRequestParams<P>,
+  ) => Promise<R>;
+
+  public abstract use: (
+    method: string,
+    middleware: EngineTypes.SessionRequestMiddleware,
+  ) => () => void;
 }
@@ -7,6 +7,11 @@ export declare namespace ExpirerTypes {
   interface Expiration {
     topic: string;
     expiry: number;
+    id?: number;
+    // set on a rekeyed session's previous topic, the topic the session moved to
+    rekeyedTopic?: string;
+    // set on the scheduled auto extension check of a session
+    autoExtend?: boolean;
   }
 
   interface Created {
@@ -23,18 +28,41 @@ export declare namespace ExpirerTypes {
     topic: string;
     expiration: Expiration;
   }
+
+  interface Warning {
+    topic: string;
+    expiration: Expiration;
+  }
+
+  // source of time and timers, in milliseconds
+  interface Clock<Timer = ReturnType<typeof setTimeout>> {
+    now(): number;
+    setTimeout(callback: () => void, timeout: number): Timer;
+    clearTimeout(timer: Timer): void;
+  }
+
+  interface Options {
+    // seconds before expiry to emit a warning
+    warning?: number;
+    // timers it arms are opaque to the expirer
+    clock?: Clock<unknown>;
+  }
 }
 
 export abstract class IExpirer extends IEvents {
   public abstract name: string;
   public abstract readonly context: string;
 
-  constructor(public core: ICore, public logger: Logger) {
+  public abstract readonly values: ExpirerTypes.Expiration[];
+
+  constructor(public core: ICore, public logger: Logger, public opts?: ExpirerTypes.Options) {
     super();
   }
 
   public abstract init(): Promise<void>;
 
+  public abstract start(): void;
+
   public abstract has(tag: string): boolean;
 
   public abstract set(tag: string, expiration: ExpirerTypes.Expiration): void;
@@ -3,5 +3,6 @@ export * from "./engine";
 export * from "./expirer";
 export * from "./jsonrpc";
 export * from "./pairing";
+export * from "./pendingRequest";
 export * from "./proposal";
 export * from "./session";
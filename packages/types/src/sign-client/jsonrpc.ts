@@ -15,6 +15,7 @@ export declare namespace JsonRpcTypes {
     | "wc_sessionSettle"
     | "wc_sessionUpdate"
     | "wc_sessionExtend"
+    | "wc_sessionRekey"
     | "wc_sessionDelete"
     | "wc_sessionPing"
     | "wc_sessionRequest"
@@ -31,10 +32,12 @@ export declare namespace JsonRpcTypes {
     wc_sessionPropose: {
       relays: RelayerTypes.ProtocolOptions[];
       requiredNamespaces: ProposalTypes.RequiredNamespaces;
+      optionalNamespaces?: ProposalTypes.OptionalNamespaces;
       proposer: {
         publicKey: string;
         metadata: SignClientTypes.Metadata;
       };
+      compression?: string[];
     };
     wc_sessionSettle: {
       relay: RelayerTypes.ProtocolOptions;
@@ -44,11 +47,17 @@ export declare namespace JsonRpcTypes {
         publicKey: string;
         metadata: SignClientTypes.Metadata;
       };
+      compression?: string;
     };
     wc_sessionUpdate: {
       namespaces: SessionTypes.Namespaces;
     };
-    wc_sessionExtend: {};
+    wc_sessionExtend: {
+      expiry?: number;
+    };
+    wc_sessionRekey: {
+      publicKey: string;
+    };
     wc_sessionDelete: {
       code: number;
       message: string;
@@ -60,6 +69,7 @@ export declare namespace JsonRpcTypes {
         params: any;
       };
       chainId: string;
+      expiry?: number;
     };
     wc_sessionEvent: {
       event: {
@@ -81,6 +91,9 @@ export declare namespace JsonRpcTypes {
     wc_sessionSettle: true;
     wc_sessionUpdate: true;
     wc_sessionExtend: true;
+    wc_sessionRekey: {
+      publicKey: string;
+    };
     wc_sessionDelete: true;
     wc_sessionPing: true;
     wc_sessionRequest: JsonRpcResult;
@@ -9,6 +9,7 @@ export declare namespace PairingTypes {
     relay: RelayerTypes.ProtocolOptions;
     active: boolean;
     peerMetadata?: SignClientTypes.Metadata;
+    label?: string;
   }
 }
 
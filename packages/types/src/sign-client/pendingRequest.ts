@@ -0,0 +1,15 @@
+import { SignClientTypes } from "./client";
+import { JsonRpcTypes } from "./jsonrpc";
+import { IStore } from "../core/store";
+
+export declare namespace PendingRequestTypes {
+  export interface Struct {
+    id: number;
+    topic: string;
+    params: JsonRpcTypes.RequestParams["wc_sessionRequest"];
+    peerMetadata?: SignClientTypes.Metadata;
+    receivedAt: number;
+  }
+}
+
+export type IPendingRequest = IStore<number, PendingRequestTypes.Struct>;
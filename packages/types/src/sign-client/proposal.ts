@@ -15,6 +15,8 @@ export declare namespace ProposalTypes {
 
   type RequiredNamespaces = Record<string, RequiredNamespace>;
 
+  type OptionalNamespaces = Record<string, RequiredNamespace>;
+
   export interface Struct {
     id: number;
     relays: RelayerTypes.ProtocolOptions[];
@@ -23,7 +25,13 @@ export declare namespace ProposalTypes {
       metadata: SignClientTypes.Metadata;
     };
     requiredNamespaces: RequiredNamespaces;
+    optionalNamespaces?: OptionalNamespaces;
+    expiry: number;
     pairingTopic?: string;
+    // topic of the session the responder settles, known once the proposal is approved
+    sessionTopic?: string;
+    // compression algorithms supported by the proposer
+    compression?: string[];
   }
 }
 
@@ -17,6 +17,48 @@ export declare namespace SessionTypes {
 
   type Namespaces = Record<string, Namespace>;
 
+  // what a wallet is able to approve within a namespace
+  interface SupportedNamespace {
+    chains: string[];
+    methods: string[];
+    events: string[];
+    accounts: string[];
+  }
+
+  type SupportedNamespaces = Record<string, SupportedNamespace>;
+
+  // required chains, methods and events a wallet is not able to approve
+  interface UnsupportedRequirements {
+    chains: string[];
+    methods: string[];
+    events: string[];
+  }
+
+  // what approved namespaces are missing from a required namespace and each of its extensions
+  interface NamespaceConformanceDiff extends UnsupportedRequirements {
+    extension?: UnsupportedRequirements[];
+  }
+
+  type NamespacesConformanceDiff = Record<string, NamespaceConformanceDiff>;
+
+  // accounts, chains, methods and events across namespaces and their extensions
+  interface NamespacesScope {
+    accounts: string[];
+    chains: string[];
+    methods: string[];
+    events: string[];
+  }
+
+  interface NamespacesDiff {
+    added: NamespacesScope;
+    removed: NamespacesScope;
+  }
+
+  interface ApprovedNamespaces {
+    namespaces: Namespaces;
+    unsupported: UnsupportedRequirements;
+  }
+
   interface Struct {
     topic: string;
     relay: RelayerTypes.ProtocolOptions;
@@ -32,6 +74,11 @@ export declare namespace SessionTypes {
       publicKey: string;
       metadata: SignClientTypes.Metadata;
     };
+    pairingTopic?: string;
+    createdAt?: number;
+    lastActivity?: number;
+    // compression algorithm negotiated with the peer
+    compression?: string;
   }
 }
 
@@ -4,17 +4,33 @@ import { randomBytes } from "@stablelib/random";
 import { hash, SHA256 } from "@stablelib/sha256";
 import * as x25519 from "@stablelib/x25519";
 import { CryptoTypes } from "@walletconnect/types";
+import { deflateRaw, Inflate } from "pako";
 import { concat } from "uint8arrays/concat";
 import { fromString } from "uint8arrays/from-string";
 import { toString } from "uint8arrays/to-string";
+import { ERROR } from "./error";
 
 export const BASE16 = "base16";
 export const BASE64 = "base64pad";
 export const UTF8 = "utf8";
 
+export const COMPRESSION_DEFLATE = "deflate";
+
+// upper bound for inflated messages, a small deflate bomb must not exhaust memory
+export const COMPRESSION_MAX_SIZE = 1024 * 1024;
+
+// envelope sealed with the symmetric key stored for the topic, serialized without a header
+export const TYPE_0 = 0;
+// envelope sealed with a key derived from the sender and receiver key pairs
+export const TYPE_1 = 1;
+
 const ZERO_INDEX = 0;
+const TYPE_LENGTH = 1;
 const IV_LENGTH = 12;
 const KEY_LENGTH = 32;
+const TAG_LENGTH = 16;
+// header bit set on deflated messages
+const COMPRESSED_FLAG = 0x80;
 
 export function generateKeyPair(): CryptoTypes.KeyPair {
   const keyPair = x25519.generateKeyPair();
@@ -53,29 +69,111 @@ export function hashMessage(message: string) {
   return toString(result, BASE16);
 }
 
+export function encodeTypeByte(type: number, compressed = false): Uint8Array {
+  return new Uint8Array([compressed ? type | COMPRESSED_FLAG : type]);
+}
+
+export function decodeTypeByte(byte: Uint8Array): { type: number; compressed: boolean } {
+  const header = byte[ZERO_INDEX];
+  return { type: header & ~COMPRESSED_FLAG, compressed: (header & COMPRESSED_FLAG) !== 0 };
+}
+
 export function encrypt(params: CryptoTypes.EncryptParams) {
+  const compressed = params.compression === COMPRESSION_DEFLATE;
+  const senderPublicKey =
+    typeof params.senderPublicKey !== "undefined"
+      ? fromString(params.senderPublicKey, BASE16)
+      : undefined;
   const iv =
     typeof params.iv !== "undefined" ? fromString(params.iv, BASE16) : randomBytes(IV_LENGTH);
   const box = new ChaCha20Poly1305(fromString(params.symKey, BASE16));
-  const sealed = box.seal(iv, fromString(params.message, UTF8));
-  return serialize({ sealed, iv });
+  const message = fromString(params.message, UTF8);
+  const sealed = box.seal(iv, compressed ? deflateRaw(message) : message);
+  return serialize({ type: params.type, compressed, sealed, iv, senderPublicKey });
 }
 
 export function decrypt(params: CryptoTypes.DecryptParams) {
   const box = new ChaCha20Poly1305(fromString(params.symKey, BASE16));
+  const negotiated = params.compression === COMPRESSION_DEFLATE;
+  // only type 1 envelopes and messages on topics that negotiated deflate can carry a header
+  if (params.type === TYPE_1 || (negotiated && isCompressedEnvelope(params.encoded))) {
+    const { compressed, sealed, iv } = deserializeEnvelope(params.encoded);
+    const message = box.open(iv, sealed);
+    if (message !== null) {
+      if (compressed && !negotiated) throw new Error("Compression was not negotiated");
+      return toString(compressed ? decompress(message, params.maxSize) : message, UTF8);
+    }
+    if (params.type === TYPE_1) throw new Error("Failed to decrypt");
+    // the header matched the first byte of a random iv, retry as a type 0 envelope
+  }
   const { sealed, iv } = deserialize(params.encoded);
   const message = box.open(iv, sealed);
   if (message === null) throw new Error("Failed to decrypt");
   return toString(message, UTF8);
 }
 
+export function decompress(compressed: Uint8Array, maxSize = COMPRESSION_MAX_SIZE): Uint8Array {
+  const inflator = new Inflate({ raw: true });
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  inflator.onData = (chunk: Uint8Array) => {
+    size += chunk.length;
+    if (size > maxSize) throw new Error(`Decompressed message exceeds ${maxSize} bytes`);
+    chunks.push(chunk);
+  };
+  inflator.push(compressed, true);
+  if (inflator.err) throw new Error(`Failed to decompress: ${inflator.msg}`);
+  return concat(chunks, size);
+}
+
 export function serialize(params: CryptoTypes.EncodingParams): string {
-  return toString(concat([params.iv, params.sealed]), BASE64);
+  const type = typeof params.type !== "undefined" ? params.type : TYPE_0;
+  if (type === TYPE_0 && !params.compressed) {
+    return toString(concat([params.iv, params.sealed]), BASE64);
+  }
+  const header = encodeTypeByte(type, params.compressed);
+  if (type === TYPE_1) {
+    if (typeof params.senderPublicKey === "undefined") {
+      throw new Error(
+        ERROR.MISSING_OR_INVALID.stringify({ name: "type 1 envelope senderPublicKey" }),
+      );
+    }
+    return toString(concat([header, params.senderPublicKey, params.iv, params.sealed]), BASE64);
+  }
+  return toString(concat([header, params.iv, params.sealed]), BASE64);
 }
 
 export function deserialize(encoded: string): CryptoTypes.EncodingParams {
   const array = fromString(encoded, BASE64);
   const iv = array.slice(ZERO_INDEX, IV_LENGTH);
   const sealed = array.slice(IV_LENGTH);
-  return { sealed, iv };
+  return { type: TYPE_0, sealed, iv };
+}
+
+// header byte, sender public key (type 1 only), iv and sealed message
+export function deserializeEnvelope(encoded: string): CryptoTypes.EncodingParams {
+  const array = fromString(encoded, BASE64);
+  const { type, compressed } = decodeTypeByte(array.slice(ZERO_INDEX, TYPE_LENGTH));
+  if (type === TYPE_1) {
+    const ivStart = TYPE_LENGTH + KEY_LENGTH;
+    const senderPublicKey = array.slice(TYPE_LENGTH, ivStart);
+    const iv = array.slice(ivStart, ivStart + IV_LENGTH);
+    const sealed = array.slice(ivStart + IV_LENGTH);
+    return { type, compressed, sealed, iv, senderPublicKey };
+  }
+  const iv = array.slice(TYPE_LENGTH, TYPE_LENGTH + IV_LENGTH);
+  const sealed = array.slice(TYPE_LENGTH + IV_LENGTH);
+  return { type, compressed, sealed, iv };
+}
+
+// type 0 envelopes have no header, so a match may still be a type 0 iv that fails to open
+export function isTypeOneEnvelope(encoded: string): boolean {
+  const array = fromString(encoded, BASE64);
+  const minLength = TYPE_LENGTH + KEY_LENGTH + IV_LENGTH + TAG_LENGTH;
+  return array.length >= minLength && decodeTypeByte(array).type === TYPE_1;
+}
+
+export function isCompressedEnvelope(encoded: string): boolean {
+  const { type, compressed } = decodeTypeByte(fromString(encoded, BASE64));
+  return type === TYPE_0 && compressed;
 }
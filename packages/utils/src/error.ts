@@ -13,6 +13,7 @@ export const ERROR_TYPE = enumify({
   INVALID_UPDATE_REQUEST: "INVALID_UPDATE_REQUEST",
   INVALID_UPGRADE_REQUEST: "INVALID_UPGRADE_REQUEST",
   INVALID_EXTEND_REQUEST: "INVALID_EXTEND_REQUEST",
+  NON_CONFORMING_NAMESPACES: "NON_CONFORMING_NAMESPACES",
   INVALID_STORAGE_KEY_NAME: "INVALID_STORAGE_KEY_NAME",
   RECORD_ALREADY_EXISTS: "RECORD_ALREADY_EXISTS",
   RESTORE_WILL_OVERRIDE: "RESTORE_WILL_OVERRIDE",
@@ -154,6 +155,18 @@ export const ERROR: Record<ErrorType, Error> = {
       message: ERROR[ERROR_TYPE.INVALID_EXTEND_REQUEST].stringify(params),
     }),
   },
+  [ERROR_TYPE.NON_CONFORMING_NAMESPACES]: {
+    type: ERROR_TYPE.NON_CONFORMING_NAMESPACES,
+    code: 1006,
+    stringify: (params?: any) =>
+      `Non conforming namespaces for ${params?.context || defaultParams.context}: ${JSON.stringify(
+        params?.diff || {},
+      )}`,
+    format: (params?: any) => ({
+      code: ERROR[ERROR_TYPE.NON_CONFORMING_NAMESPACES].code,
+      message: ERROR[ERROR_TYPE.NON_CONFORMING_NAMESPACES].stringify(params),
+    }),
+  },
   [ERROR_TYPE.INVALID_STORAGE_KEY_NAME]: {
     type: ERROR_TYPE.INVALID_STORAGE_KEY_NAME,
     code: 1020,
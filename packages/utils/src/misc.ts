@@ -176,12 +176,12 @@ export function calcExpiry(ttl: number, now?: number): number {
 }
 
 export function isExpired(expiry: number) {
-  return fromMiliseconds(Date.now()) >= toMiliseconds(expiry);
+  return Date.now() >= toMiliseconds(expiry);
 }
 
 // -- promises --------------------------------------------- //
-export function createDelayedPromise<T>() {
-  const timeout = toMiliseconds(FIVE_MINUTES);
+export function createDelayedPromise<T>(expiry = FIVE_MINUTES) {
+  const timeout = toMiliseconds(expiry);
   let cacheResolve: undefined | ((value?: T) => void);
   let cacheReject: undefined | ((value?: ErrorResponse) => void);
   let cacheTimeout: undefined | NodeJS.Timeout;
@@ -217,3 +217,9 @@ export function createDelayedPromise<T>() {
 export function engineEvent(event: EngineTypes.Event, id?: number | string | undefined) {
   return `${event}${id ? `:${id}` : ""}`;
 }
+
+// -- expirer --------------------------------------------- //
+
+export function autoExtendTag(topic: string) {
+  return `auto_extend:${topic}`;
+}
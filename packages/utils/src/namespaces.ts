@@ -1,4 +1,6 @@
-import { SessionTypes } from "@walletconnect/types";
+import { ErrorResponse } from "@walletconnect/jsonrpc-utils";
+import { ProposalTypes, SessionTypes } from "@walletconnect/types";
+import { ERROR } from "./error";
 
 export function getAccountsChains(accounts: SessionTypes.Namespace["accounts"]) {
   const chains: string[] = [];
@@ -61,3 +63,172 @@ export function getNamespacesEventsForChainId(
 
   return events;
 }
+
+function buildNamespaceBody(
+  required: ProposalTypes.BaseRequiredNamespace,
+  supported: SessionTypes.SupportedNamespace | undefined,
+  unsupported?: SessionTypes.UnsupportedRequirements,
+): SessionTypes.BaseNamespace {
+  const chains = required.chains.filter(chain => supported?.chains.includes(chain));
+  const accounts = (supported?.accounts || []).filter(account =>
+    chains.includes(getAccountsChains([account])[0]),
+  );
+  const approvedChains = getAccountsChains(accounts);
+  const methods = required.methods.filter(method => supported?.methods.includes(method));
+  const events = required.events.filter(event => supported?.events.includes(event));
+  if (unsupported) {
+    unsupported.chains.push(...required.chains.filter(chain => !approvedChains.includes(chain)));
+    unsupported.methods.push(...required.methods.filter(method => !methods.includes(method)));
+    unsupported.events.push(...required.events.filter(event => !events.includes(event)));
+  }
+  return { accounts, methods, events };
+}
+
+function appendNamespaceBody(
+  namespaces: SessionTypes.Namespaces,
+  key: string,
+  body: SessionTypes.BaseNamespace,
+) {
+  if (!body.accounts.length) return;
+  const namespace = namespaces[key];
+  if (!namespace) namespaces[key] = body;
+  else namespace.extension = [...(namespace.extension || []), body];
+}
+
+// Builds the namespaces a wallet approves for a proposal, required scopes first and then whatever
+// optional scopes it supports, keeping track of every required chain, method and event it lacks
+export function buildApprovedNamespaces(params: {
+  proposal: Pick<ProposalTypes.Struct, "requiredNamespaces" | "optionalNamespaces">;
+  supportedNamespaces: SessionTypes.SupportedNamespaces;
+}): SessionTypes.ApprovedNamespaces {
+  const { proposal, supportedNamespaces } = params;
+  const { requiredNamespaces, optionalNamespaces = {} } = proposal;
+  const namespaces: SessionTypes.Namespaces = {};
+  const unsupported: SessionTypes.UnsupportedRequirements = { chains: [], methods: [], events: [] };
+  Object.entries(requiredNamespaces).forEach(([key, { extension, ...base }]) => {
+    const supported = supportedNamespaces[key];
+    const body = buildNamespaceBody(base, supported, unsupported);
+    const extensions = (extension || []).map(required =>
+      buildNamespaceBody(required, supported, unsupported),
+    );
+    // without a base there is no namespace to extend
+    if (!body.accounts.length) return;
+    [body, ...extensions].forEach(approved => appendNamespaceBody(namespaces, key, approved));
+  });
+  Object.entries(optionalNamespaces).forEach(([key, { extension, ...base }]) => {
+    const supported = supportedNamespaces[key];
+    if (!supported) return;
+    [base, ...(extension || [])].forEach(optional => {
+      appendNamespaceBody(namespaces, key, buildNamespaceBody(optional, supported));
+    });
+  });
+
+  return {
+    namespaces,
+    unsupported: {
+      chains: Array.from(new Set(unsupported.chains)),
+      methods: Array.from(new Set(unsupported.methods)),
+      events: Array.from(new Set(unsupported.events)),
+    },
+  };
+}
+
+export function getUnsupportedRequirementsError(
+  unsupported: SessionTypes.UnsupportedRequirements,
+): ErrorResponse | undefined {
+  const { chains, methods, events } = unsupported;
+  if (chains.length) return ERROR.UNSUPPORTED_CHAINS.format({ chains });
+  if (methods.length) return ERROR.UNSUPPORTED_JSONRPC.format({ methods });
+  if (events.length) return ERROR.UNSUPPORTED_NOTIFICATION.format({ types: events });
+  return undefined;
+}
+
+function getMissingRequirements(
+  namespaces: SessionTypes.Namespaces,
+  required: ProposalTypes.BaseRequiredNamespace,
+): SessionTypes.UnsupportedRequirements {
+  const approvedChains = getNamespacesChains(namespaces);
+  const methods = new Set<string>();
+  const events = new Set<string>();
+  // methods and events have to be approved on every required chain
+  required.chains
+    .filter(chain => approvedChains.includes(chain))
+    .forEach(chain => {
+      const approvedMethods = getNamespacesMethodsForChainId(namespaces, chain);
+      const approvedEvents = getNamespacesEventsForChainId(namespaces, chain);
+      required.methods.filter(m => !approvedMethods.includes(m)).forEach(m => methods.add(m));
+      required.events.filter(e => !approvedEvents.includes(e)).forEach(e => events.add(e));
+    });
+
+  return {
+    chains: required.chains.filter(chain => !approvedChains.includes(chain)),
+    methods: Array.from(methods),
+    events: Array.from(events),
+  };
+}
+
+function hasMissingRequirements(missing: SessionTypes.UnsupportedRequirements) {
+  return !!(missing.chains.length || missing.methods.length || missing.events.length);
+}
+
+// Lists what the approved namespaces are missing per required namespace, empty when they conform
+export function getNamespacesConformanceDiff(
+  namespaces: SessionTypes.Namespaces,
+  requiredNamespaces: ProposalTypes.RequiredNamespaces,
+): SessionTypes.NamespacesConformanceDiff {
+  const diff: SessionTypes.NamespacesConformanceDiff = {};
+  Object.entries(requiredNamespaces).forEach(([key, { extension, ...base }]) => {
+    const scoped = namespaces[key] ? { [key]: namespaces[key] } : {};
+    const missing = getMissingRequirements(scoped, base);
+    const extensions = (extension || []).map(required => getMissingRequirements(scoped, required));
+    if (![missing, ...extensions].some(hasMissingRequirements)) return;
+    diff[key] = extensions.length ? { ...missing, extension: extensions } : missing;
+  });
+
+  return diff;
+}
+
+export function getNamespacesScope(
+  namespaces: SessionTypes.Namespaces,
+): SessionTypes.NamespacesScope {
+  const scope: SessionTypes.NamespacesScope = { accounts: [], chains: [], methods: [], events: [] };
+  Object.values(namespaces).forEach(({ extension, ...base }) => {
+    [base, ...(extension || [])].forEach(body => {
+      scope.accounts.push(...body.accounts);
+      scope.methods.push(...body.methods);
+      scope.events.push(...body.events);
+    });
+  });
+  scope.chains = getNamespacesChains(namespaces);
+
+  return {
+    accounts: Array.from(new Set(scope.accounts)),
+    chains: Array.from(new Set(scope.chains)),
+    methods: Array.from(new Set(scope.methods)),
+    events: Array.from(new Set(scope.events)),
+  };
+}
+
+export function getNamespacesDiff(
+  previous: SessionTypes.Namespaces,
+  next: SessionTypes.Namespaces,
+): SessionTypes.NamespacesDiff {
+  const before = getNamespacesScope(previous);
+  const after = getNamespacesScope(next);
+  const difference = (a: string[], b: string[]) => a.filter(item => !b.includes(item));
+
+  return {
+    added: {
+      accounts: difference(after.accounts, before.accounts),
+      chains: difference(after.chains, before.chains),
+      methods: difference(after.methods, before.methods),
+      events: difference(after.events, before.events),
+    },
+    removed: {
+      accounts: difference(before.accounts, after.accounts),
+      chains: difference(before.chains, after.chains),
+      methods: difference(before.methods, after.methods),
+      events: difference(before.events, after.events),
+    },
+  };
+}
@@ -1,5 +1,6 @@
 import * as qs from "query-string";
 import { EngineTypes, RelayerTypes } from "@walletconnect/types";
+import { ERROR } from "./error";
 
 // -- uri -------------------------------------------------- //
 
@@ -16,6 +17,11 @@ export function parseRelayParams(params: any, delimiter = "-"): RelayerTypes.Pro
   return relay;
 }
 
+export function parseMethods(methods: any): string[] | undefined {
+  if (typeof methods !== "string" || !methods) return undefined;
+  return methods.split(",").filter(method => !!method);
+}
+
 export function parseUri(str: string): EngineTypes.UriParameters {
   const pathStart: number = str.indexOf(":");
   const pathEnd: number | undefined = str.indexOf("?") !== -1 ? str.indexOf("?") : undefined;
@@ -24,16 +30,39 @@ export function parseUri(str: string): EngineTypes.UriParameters {
   const requiredValues = path.split("@");
   const queryString: string = typeof pathEnd !== "undefined" ? str.substring(pathEnd) : "";
   const queryParams = qs.parse(queryString);
-  const result = {
+  const result: EngineTypes.UriParameters = {
     protocol,
     topic: requiredValues[0],
     version: parseInt(requiredValues[1], 10),
     symKey: queryParams.symKey as string,
     relay: parseRelayParams(queryParams),
   };
+  if (typeof queryParams.expiryTimestamp !== "undefined") {
+    result.expiryTimestamp = Number(queryParams.expiryTimestamp);
+  }
+  const methods = parseMethods(queryParams.methods);
+  if (methods) result.methods = methods;
+  validateUriParams(result);
   return result;
 }
 
+export function validateUriParams(params: EngineTypes.UriParameters) {
+  const { protocol, topic, version, symKey, relay, expiryTimestamp } = params;
+  if (!protocol) throw ERROR.MISSING_OR_INVALID.format({ name: "uri protocol" });
+  if (!topic) throw ERROR.MISSING_OR_INVALID.format({ name: "uri topic" });
+  if (!Number.isInteger(version) || version <= 0) {
+    throw ERROR.MISSING_OR_INVALID.format({ name: "uri version" });
+  }
+  if (!symKey) throw ERROR.MISSING_OR_INVALID.format({ name: "uri symKey" });
+  if (!relay.protocol) throw ERROR.MISSING_OR_INVALID.format({ name: "uri relay-protocol" });
+  if (
+    typeof expiryTimestamp !== "undefined" &&
+    (!Number.isInteger(expiryTimestamp) || expiryTimestamp <= 0)
+  ) {
+    throw ERROR.MISSING_OR_INVALID.format({ name: "uri expiryTimestamp" });
+  }
+}
+
 export function formatRelayParams(relay: RelayerTypes.ProtocolOptions, delimiter = "-") {
   const prefix = "relay";
   const params: any = {};
@@ -52,6 +81,27 @@ export function formatUri(params: EngineTypes.UriParameters): string {
     qs.stringify({
       symKey: params.symKey,
       ...formatRelayParams(params.relay),
+      expiryTimestamp: params.expiryTimestamp,
+      methods: params.methods?.length ? params.methods.join(",") : undefined,
     })
   );
 }
+
+// -- links ------------------------------------------------ //
+
+// Native schemes become "scheme://wc", universal links get a "/wc" path appended
+export function formatLinkBase(link: string) {
+  const base = link.includes("://") ? link : `${link.replace(/:$/, "")}://`;
+  return base.endsWith("://") ? `${base}wc` : `${base.replace(/\/+$/, "")}/wc`;
+}
+
+export function formatPairingLink(link: string, uri: string) {
+  return `${formatLinkBase(link)}?${qs.stringify({ uri })}`;
+}
+
+export function formatRequestLink(link: string, params: { id: number; topic: string }) {
+  return `${formatLinkBase(link)}?${qs.stringify({
+    requestId: params.id,
+    sessionTopic: params.topic,
+  })}`;
+}
@@ -1,10 +1,18 @@
-import { SessionTypes, ProposalTypes, RelayerTypes, EngineTypes } from "@walletconnect/types";
+import {
+  SessionTypes,
+  ProposalTypes,
+  RelayerTypes,
+  EngineTypes,
+  SignClientTypes,
+} from "@walletconnect/types";
 import { ErrorResponse } from "@walletconnect/jsonrpc-types";
 import {
   getNamespacesChains,
   getNamespacesMethodsForChainId,
   getNamespacesEventsForChainId,
   getAccountsChains,
+  getNamespacesConformanceDiff,
+  getNamespacesScope,
 } from "./namespaces";
 import { hasOverlap } from "./misc";
 
@@ -20,6 +28,8 @@ export function isSessionCompatible(session: SessionTypes.Struct, params: Engine
     const { accounts, methods, events, extension } = session.namespaces[key];
     const chains = getAccountsChains(accounts);
     const requiredNamespace = requiredNamespaces[key];
+    // sessions may approve more namespaces than requested
+    if (!requiredNamespace) return;
 
     if (
       !hasOverlap(requiredNamespace.chains, chains) ||
@@ -47,6 +57,28 @@ export function isSessionCompatible(session: SessionTypes.Struct, params: Engine
   return compatible;
 }
 
+export function isSessionMatchingQuery(
+  session: SessionTypes.Struct,
+  params: EngineTypes.QuerySessionsParams,
+) {
+  const { requiredNamespaces, peer, chain, account, method, event, expiry, acknowledged } = params;
+  const { metadata } = session.peer;
+  const scope = getNamespacesScope(session.namespaces);
+  if (requiredNamespaces && !isSessionCompatible(session, { requiredNamespaces })) return false;
+  if (!isUndefined(peer?.url) && metadata.url !== peer?.url) return false;
+  if (!isUndefined(peer?.name) && metadata.name !== peer?.name) return false;
+  if (!isUndefined(chain) && !scope.chains.includes(chain)) return false;
+  if (!isUndefined(account) && !scope.accounts.includes(account)) return false;
+  if (!isUndefined(method) && !scope.methods.includes(method)) return false;
+  if (!isUndefined(event) && !scope.events.includes(event)) return false;
+  const { from, to } = expiry || {};
+  if (!isUndefined(from) && session.expiry < from) return false;
+  if (!isUndefined(to) && session.expiry > to) return false;
+  if (!isUndefined(acknowledged) && session.acknowledged !== acknowledged) return false;
+
+  return true;
+}
+
 export function isValidArray(arr: any, itemCondition?: (item: any) => boolean) {
   if (Array.isArray(arr)) {
     if (typeof itemCondition !== "undefined" && arr.length) {
@@ -111,6 +143,24 @@ export function isValidUrl(value: any) {
   return false;
 }
 
+export function isValidRedirect(
+  input: any,
+  optional: boolean,
+): input is SignClientTypes.Metadata["redirect"] {
+  if (optional && isUndefined(input)) return true;
+  if (!input || typeof input !== "object") return false;
+  const { native, universal } = input;
+  if (isUndefined(native) && isUndefined(universal)) return false;
+  if (
+    !isUndefined(native) &&
+    !(isValidString(native, false) && /^[a-z][a-z0-9+.-]*:/i.test(native))
+  )
+    return false;
+  if (!isUndefined(universal) && !isValidUrl(universal)) return false;
+
+  return true;
+}
+
 export function isProposalStruct(input: any): input is ProposalTypes.Struct {
   return input?.proposer?.publicKey;
 }
@@ -189,6 +239,46 @@ export function isValidNamespaces(input: any, optional: boolean): input is Sessi
   return valid;
 }
 
+export function isValidNamespacesScope(
+  namespaces: SessionTypes.Namespaces,
+  requiredNamespaces: ProposalTypes.RequiredNamespaces,
+  optionalNamespaces: ProposalTypes.OptionalNamespaces = {},
+) {
+  let valid = true;
+  Object.keys(namespaces).forEach(key => {
+    const proposed = [requiredNamespaces[key], optionalNamespaces[key]].filter(
+      namespace => !isUndefined(namespace),
+    );
+    if (!proposed.length) {
+      valid = false;
+      return;
+    }
+    const bodies: ProposalTypes.BaseRequiredNamespace[] = [];
+    proposed.forEach(namespace => bodies.push(namespace, ...(namespace.extension || [])));
+    const { extension, ...base } = namespaces[key];
+    [base, ...(extension || [])].forEach(body => {
+      // each approved chain is held to what was proposed for that chain only
+      getAccountsChains(body.accounts).forEach(chain => {
+        const covering = bodies.filter(proposedBody => proposedBody.chains.includes(chain));
+        const methods = covering.reduce<string[]>((all, { methods }) => [...all, ...methods], []);
+        const events = covering.reduce<string[]>((all, { events }) => [...all, ...events], []);
+        if (!covering.length) valid = false;
+        if (!hasOverlap(body.methods, methods)) valid = false;
+        if (!hasOverlap(body.events, events)) valid = false;
+      });
+    });
+  });
+
+  return valid;
+}
+
+export function isConformingNamespaces(
+  namespaces: SessionTypes.Namespaces,
+  requiredNamespaces: ProposalTypes.RequiredNamespaces,
+) {
+  return !Object.keys(getNamespacesConformanceDiff(namespaces, requiredNamespaces)).length;
+}
+
 export function isValidRelay(input: any): input is RelayerTypes.ProtocolOptions {
   return isValidString(input.protocol, true);
 }
@@ -1,18 +1,24 @@
 import "mocha";
 import { expect } from "chai";
 import { toString } from "uint8arrays/to-string";
-import { safeJsonStringify } from "@walletconnect/safe-json";
+import { safeJsonParse, safeJsonStringify } from "@walletconnect/safe-json";
 
 import {
   BASE16,
+  COMPRESSION_DEFLATE,
+  COMPRESSION_MAX_SIZE,
   deriveSharedKey,
   encrypt,
   decrypt,
   deriveSymmetricKey,
   deserialize,
+  deserializeEnvelope,
   generateKeyPair,
   hashKey,
   hashMessage,
+  isCompressedEnvelope,
+  isTypeOneEnvelope,
+  TYPE_1,
 } from "../src";
 
 import { TEST_KEY_PAIRS, TEST_SHARED_KEY, TEST_HASHED_KEY, TEST_SYM_KEY } from "./shared";
@@ -74,4 +80,39 @@ describe("Crypto", () => {
     const decrypted = decrypt({ symKey: TEST_SYM_KEY, encoded: TEST_ENCODED });
     expect(decrypted).to.eql(TEST_MESSAGE);
   });
+  it("encrypt and decrypt type 1 envelopes", () => {
+    const symKey = deriveSymmetricKey(deriveSharedKey(TEST_SELF.privateKey, TEST_PEER.publicKey));
+    const encoded = encrypt({
+      type: TYPE_1,
+      symKey,
+      message: TEST_MESSAGE,
+      senderPublicKey: TEST_SELF.publicKey,
+    });
+    expect(isTypeOneEnvelope(encoded)).to.be.true;
+    expect(isTypeOneEnvelope(TEST_ENCODED)).to.be.false;
+    const deserialized = deserializeEnvelope(encoded);
+    expect(toString(deserialized.senderPublicKey!, BASE16)).to.eql(TEST_SELF.publicKey);
+    expect(decrypt({ type: TYPE_1, symKey, encoded })).to.eql(TEST_MESSAGE);
+    expect(() => encrypt({ type: TYPE_1, symKey, message: TEST_MESSAGE })).to.throw();
+  });
+  it("encrypt and decrypt with compression", () => {
+    const message = safeJsonStringify({
+      ...safeJsonParse(TEST_MESSAGE),
+      params: ["0x".padEnd(2048, "f")],
+    });
+    const encoded = encrypt({ symKey: TEST_SYM_KEY, message, compression: COMPRESSION_DEFLATE });
+    expect(encoded.length).to.be.lessThan(encrypt({ symKey: TEST_SYM_KEY, message }).length);
+    expect(isCompressedEnvelope(encoded)).to.be.true;
+    expect(decrypt({ symKey: TEST_SYM_KEY, encoded, compression: COMPRESSION_DEFLATE })).to.eql(
+      message,
+    );
+    expect(() => decrypt({ symKey: TEST_SYM_KEY, encoded })).to.throw();
+  });
+  it("decrypt rejects compressed messages above the maximum size", () => {
+    const message = "0".repeat(COMPRESSION_MAX_SIZE + 1);
+    const encoded = encrypt({ symKey: TEST_SYM_KEY, message, compression: COMPRESSION_DEFLATE });
+    expect(() =>
+      decrypt({ symKey: TEST_SYM_KEY, encoded, compression: COMPRESSION_DEFLATE }),
+    ).to.throw(`Decompressed message exceeds ${COMPRESSION_MAX_SIZE} bytes`);
+  });
 });
@@ -1,7 +1,7 @@
 import "mocha";
 import { expect } from "chai";
 
-import { calcExpiry, formatRelayRpcUrl } from "../src";
+import { calcExpiry, formatRelayRpcUrl, isExpired } from "../src";
 import { hasOverlap } from "../dist/cjs";
 
 const RELAY_URL = "wss://relay.walletconnect.com";
@@ -41,4 +41,9 @@ describe("Misc", () => {
   it("calcExpiry", () => {
     expect(calcExpiry(SEVEN_DAYS, TEST_MILISECONDS)).to.eql(EXPECTED_EXPIRY);
   });
+  it("isExpired", () => {
+    expect(isExpired(TEST_SECONDS)).to.be.true;
+    expect(isExpired(calcExpiry(-1))).to.be.true;
+    expect(isExpired(calcExpiry(SEVEN_DAYS))).to.be.false;
+  });
 });
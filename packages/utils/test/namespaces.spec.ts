@@ -0,0 +1,190 @@
+import "mocha";
+import { expect } from "chai";
+import {
+  TEST_ACCOUNTS,
+  TEST_CHAINS,
+  TEST_ETHEREUM_ACCOUNT_A,
+  TEST_ETHEREUM_CHAIN_A,
+  TEST_ETHEREUM_CHAIN_B,
+  TEST_ETHEREUM_NAMESPACE,
+  TEST_EVENTS,
+  TEST_METHODS,
+} from "./shared/values";
+
+import {
+  buildApprovedNamespaces,
+  ERROR,
+  getNamespacesConformanceDiff,
+  getNamespacesDiff,
+  getUnsupportedRequirementsError,
+  isConformingNamespaces,
+} from "../src";
+
+const TEST_SUPPORTED_NAMESPACES = {
+  [TEST_ETHEREUM_NAMESPACE]: {
+    chains: TEST_CHAINS,
+    methods: TEST_METHODS,
+    events: TEST_EVENTS,
+    accounts: TEST_ACCOUNTS,
+  },
+};
+
+describe("Namespaces", () => {
+  it("buildApprovedNamespaces", () => {
+    // exact
+    expect(
+      buildApprovedNamespaces({
+        proposal: {
+          requiredNamespaces: {
+            [TEST_ETHEREUM_NAMESPACE]: {
+              chains: TEST_CHAINS,
+              methods: TEST_METHODS,
+              events: TEST_EVENTS,
+            },
+          },
+        },
+        supportedNamespaces: TEST_SUPPORTED_NAMESPACES,
+      }),
+    ).to.eql({
+      namespaces: {
+        [TEST_ETHEREUM_NAMESPACE]: {
+          accounts: TEST_ACCOUNTS,
+          methods: TEST_METHODS,
+          events: TEST_EVENTS,
+        },
+      },
+      unsupported: { chains: [], methods: [], events: [] },
+    });
+    // extension and optional scopes
+    expect(
+      buildApprovedNamespaces({
+        proposal: {
+          requiredNamespaces: {
+            [TEST_ETHEREUM_NAMESPACE]: {
+              chains: [TEST_ETHEREUM_CHAIN_A],
+              methods: [TEST_METHODS[0]],
+              events: [],
+              extension: [
+                { chains: [TEST_ETHEREUM_CHAIN_B], methods: [TEST_METHODS[1]], events: [] },
+              ],
+            },
+          },
+          optionalNamespaces: {
+            [TEST_ETHEREUM_NAMESPACE]: {
+              chains: [TEST_ETHEREUM_CHAIN_A],
+              methods: [TEST_METHODS[2], "eth_unsupported"],
+              events: TEST_EVENTS,
+            },
+            cosmos: { chains: ["cosmos:cosmoshub-4"], methods: ["cosmos_signDirect"], events: [] },
+          },
+        },
+        supportedNamespaces: TEST_SUPPORTED_NAMESPACES,
+      }).namespaces,
+    ).to.eql({
+      [TEST_ETHEREUM_NAMESPACE]: {
+        accounts: [TEST_ETHEREUM_ACCOUNT_A],
+        methods: [TEST_METHODS[0]],
+        events: [],
+        extension: [
+          { accounts: [TEST_ACCOUNTS[1]], methods: [TEST_METHODS[1]], events: [] },
+          { accounts: [TEST_ETHEREUM_ACCOUNT_A], methods: [TEST_METHODS[2]], events: TEST_EVENTS },
+        ],
+      },
+    });
+  });
+  it("buildApprovedNamespaces reports unsupported requirements", () => {
+    const { namespaces, unsupported } = buildApprovedNamespaces({
+      proposal: {
+        requiredNamespaces: {
+          [TEST_ETHEREUM_NAMESPACE]: {
+            chains: [TEST_ETHEREUM_CHAIN_A, "eip155:10"],
+            methods: [TEST_METHODS[0], "eth_unsupported"],
+            events: [TEST_EVENTS[0]],
+          },
+          cosmos: { chains: ["cosmos:cosmoshub-4"], methods: ["cosmos_signDirect"], events: [] },
+        },
+      },
+      supportedNamespaces: TEST_SUPPORTED_NAMESPACES,
+    });
+    expect(Object.keys(namespaces)).to.eql([TEST_ETHEREUM_NAMESPACE]);
+    expect(unsupported).to.eql({
+      chains: ["eip155:10", "cosmos:cosmoshub-4"],
+      methods: ["eth_unsupported", "cosmos_signDirect"],
+      events: [],
+    });
+    expect(getUnsupportedRequirementsError(unsupported)).to.eql(
+      ERROR.UNSUPPORTED_CHAINS.format({ chains: unsupported.chains }),
+    );
+    expect(getUnsupportedRequirementsError({ ...unsupported, chains: [] })).to.eql(
+      ERROR.UNSUPPORTED_JSONRPC.format({ methods: unsupported.methods }),
+    );
+    expect(getUnsupportedRequirementsError({ chains: [], methods: [], events: [] })).to.be
+      .undefined;
+  });
+  it("getNamespacesConformanceDiff", () => {
+    const requiredNamespaces = {
+      [TEST_ETHEREUM_NAMESPACE]: {
+        chains: [TEST_ETHEREUM_CHAIN_A],
+        methods: TEST_METHODS,
+        events: TEST_EVENTS,
+        extension: [{ chains: [TEST_ETHEREUM_CHAIN_B], methods: ["eth_sign"], events: [] }],
+      },
+      cosmos: { chains: ["cosmos:cosmoshub-4"], methods: [], events: [] },
+    };
+    const namespaces = {
+      [TEST_ETHEREUM_NAMESPACE]: {
+        accounts: TEST_ACCOUNTS,
+        methods: TEST_METHODS.slice(1),
+        events: TEST_EVENTS,
+        extension: [{ accounts: [TEST_ACCOUNTS[0]], methods: [TEST_METHODS[0]], events: [] }],
+      },
+    };
+    expect(getNamespacesConformanceDiff(namespaces, requiredNamespaces)).to.eql({
+      [TEST_ETHEREUM_NAMESPACE]: {
+        chains: [],
+        methods: [],
+        events: [],
+        extension: [{ chains: [], methods: ["eth_sign"], events: [] }],
+      },
+      cosmos: { chains: ["cosmos:cosmoshub-4"], methods: [], events: [] },
+    });
+    expect(isConformingNamespaces(namespaces, requiredNamespaces)).to.be.false;
+    const { cosmos, ...conforming } = requiredNamespaces;
+    expect(cosmos).to.exist;
+    expect(
+      isConformingNamespaces(namespaces, {
+        [TEST_ETHEREUM_NAMESPACE]: { ...conforming[TEST_ETHEREUM_NAMESPACE], extension: [] },
+      }),
+    ).to.be.true;
+  });
+  it("getNamespacesDiff", () => {
+    const previous = {
+      [TEST_ETHEREUM_NAMESPACE]: {
+        accounts: [TEST_ETHEREUM_ACCOUNT_A],
+        methods: TEST_METHODS,
+        events: TEST_EVENTS,
+      },
+    };
+    const next = {
+      [TEST_ETHEREUM_NAMESPACE]: {
+        accounts: [TEST_ETHEREUM_ACCOUNT_A],
+        methods: TEST_METHODS.slice(1),
+        events: TEST_EVENTS,
+        extension: [{ accounts: [TEST_ACCOUNTS[1]], methods: ["eth_sign"], events: [] }],
+      },
+    };
+    expect(getNamespacesDiff(previous, next)).to.eql({
+      added: {
+        accounts: [TEST_ACCOUNTS[1]],
+        chains: [TEST_ETHEREUM_CHAIN_B],
+        methods: ["eth_sign"],
+        events: [],
+      },
+      removed: { accounts: [], chains: [], methods: [TEST_METHODS[0]], events: [] },
+    });
+    expect(getNamespacesDiff(next, next)).to.eql({
+      added: { accounts: [], chains: [], methods: [], events: [] },
+      removed: { accounts: [], chains: [], methods: [], events: [] },
+    });
+  });
+});
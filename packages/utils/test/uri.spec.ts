@@ -1,7 +1,7 @@
 import { EngineTypes } from "@walletconnect/types";
 import { expect } from "chai";
 import "mocha";
-import { formatUri, parseUri } from "../src";
+import { formatPairingLink, formatRequestLink, formatUri, parseUri } from "../src";
 import { TEST_PAIRING_TOPIC, TEST_RELAY_OPTIONS, TEST_SYM_KEY } from "./shared";
 
 const TEST_URI_PARAMS: EngineTypes.UriParameters = {
@@ -27,4 +27,34 @@ describe("URI", () => {
     expect(uriParams.relay.data).to.eql(TEST_URI_PARAMS.relay.data);
     expect(uriParams.relay.protocol).to.eql(TEST_URI_PARAMS.relay.protocol);
   });
+  it("formatUri with expiryTimestamp and methods", () => {
+    const params = {
+      ...TEST_URI_PARAMS,
+      expiryTimestamp: 1700000000,
+      methods: ["wc_sessionPropose", "wc_sessionRequest"],
+    };
+    const uriParams = parseUri(formatUri(params));
+    expect(uriParams.expiryTimestamp).to.eql(params.expiryTimestamp);
+    expect(uriParams.methods).to.eql(params.methods);
+  });
+  it("parseUri throws on malformed uri", () => {
+    expect(() => parseUri(`wc:${TEST_PAIRING_TOPIC}@2?symKey=${TEST_SYM_KEY}`)).to.throw();
+    expect(() => parseUri(TEST_URI_STRING.replace("@2", "@x"))).to.throw();
+    const missingSymKey = TEST_URI_STRING.replace(`&symKey=${TEST_SYM_KEY}`, "");
+    expect(() => parseUri(missingSymKey)).to.throw();
+    expect(() => parseUri(`${TEST_URI_STRING}&expiryTimestamp=soon`)).to.throw();
+  });
+  it("formatPairingLink", () => {
+    const uri = encodeURIComponent(TEST_URI_STRING);
+    expect(formatPairingLink("myapp://", TEST_URI_STRING)).to.eql(`myapp://wc?uri=${uri}`);
+    expect(formatPairingLink("myapp:", TEST_URI_STRING)).to.eql(`myapp://wc?uri=${uri}`);
+    expect(formatPairingLink("https://example.com/app/", TEST_URI_STRING)).to.eql(
+      `https://example.com/app/wc?uri=${uri}`,
+    );
+  });
+  it("formatRequestLink", () => {
+    expect(formatRequestLink("https://example.com", { id: 1, topic: TEST_PAIRING_TOPIC })).to.eql(
+      `https://example.com/wc?requestId=1&sessionTopic=${TEST_PAIRING_TOPIC}`,
+    );
+  });
 });
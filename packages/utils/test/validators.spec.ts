@@ -1,15 +1,24 @@
 import "mocha";
 import { expect } from "chai";
+import { SessionTypes } from "@walletconnect/types";
 import {
   TEST_CHAINS,
+  TEST_ETHEREUM_ACCOUNT_A,
+  TEST_ETHEREUM_ACCOUNT_B,
   TEST_ETHEREUM_CHAIN_A,
+  TEST_ETHEREUM_CHAIN_B,
   TEST_ETHEREUM_NAMESPACE,
   TEST_EVENTS,
   TEST_METHODS,
   TEST_SESSION,
 } from "./shared/values";
 
-import { isSessionCompatible } from "../src";
+import {
+  isSessionCompatible,
+  isSessionMatchingQuery,
+  isValidNamespacesScope,
+  isValidRedirect,
+} from "../src";
 
 describe("Validators", () => {
   it("isSessionCompatible", () => {
@@ -107,4 +116,137 @@ describe("Validators", () => {
       }),
     ).to.be.false;
   });
+  it("isValidNamespacesScope", () => {
+    const requiredNamespaces = {
+      [TEST_ETHEREUM_NAMESPACE]: {
+        chains: TEST_CHAINS,
+        methods: TEST_METHODS,
+        events: TEST_EVENTS,
+      },
+    };
+    const optionalNamespaces = {
+      cosmos: { chains: ["cosmos:cosmoshub-4"], methods: ["cosmos_signDirect"], events: [] },
+    };
+    const cosmos = {
+      accounts: ["cosmos:cosmoshub-4:cosmos1t2uflqwqe0fsj0shcfkrvpukewcw40yjj6hdc0"],
+      methods: ["cosmos_signDirect"],
+      events: [],
+    };
+    // required only
+    expect(isValidNamespacesScope(TEST_SESSION.namespaces, requiredNamespaces)).to.be.true;
+    // required and optional
+    expect(
+      isValidNamespacesScope(
+        { ...TEST_SESSION.namespaces, cosmos },
+        requiredNamespaces,
+        optionalNamespaces,
+      ),
+    ).to.be.true;
+    // namespace not proposed
+    expect(isValidNamespacesScope({ ...TEST_SESSION.namespaces, cosmos }, requiredNamespaces)).to.be
+      .false;
+    // method not proposed
+    expect(
+      isValidNamespacesScope(
+        { ...TEST_SESSION.namespaces, cosmos: { ...cosmos, methods: ["cosmos_signAmino"] } },
+        requiredNamespaces,
+        optionalNamespaces,
+      ),
+    ).to.be.false;
+  });
+  it("isValidNamespacesScope per chain", () => {
+    const requiredNamespaces = {
+      [TEST_ETHEREUM_NAMESPACE]: {
+        chains: [TEST_ETHEREUM_CHAIN_A],
+        methods: TEST_METHODS,
+        events: TEST_EVENTS,
+      },
+    };
+    const optionalNamespaces = {
+      [TEST_ETHEREUM_NAMESPACE]: {
+        chains: [TEST_ETHEREUM_CHAIN_B],
+        methods: ["eth_signTransaction"],
+        events: [],
+      },
+    };
+    const base = {
+      accounts: [TEST_ETHEREUM_ACCOUNT_A],
+      methods: TEST_METHODS,
+      events: TEST_EVENTS,
+    };
+    const approve = (extension: SessionTypes.BaseNamespace) =>
+      isValidNamespacesScope(
+        { [TEST_ETHEREUM_NAMESPACE]: { ...base, extension: [extension] } },
+        requiredNamespaces,
+        optionalNamespaces,
+      );
+    // methods granted on the chains they were proposed for
+    expect(
+      approve({
+        accounts: [TEST_ETHEREUM_ACCOUNT_B],
+        methods: ["eth_signTransaction"],
+        events: [],
+      }),
+    ).to.be.true;
+    // method proposed for another chain only
+    expect(
+      approve({
+        accounts: [TEST_ETHEREUM_ACCOUNT_A],
+        methods: ["eth_signTransaction"],
+        events: [],
+      }),
+    ).to.be.false;
+    // event proposed for another chain only
+    expect(approve({ accounts: [TEST_ETHEREUM_ACCOUNT_B], methods: [], events: TEST_EVENTS })).to.be
+      .false;
+  });
+  it("isSessionCompatible with namespaces beyond the request", () => {
+    const session = {
+      ...TEST_SESSION,
+      namespaces: {
+        ...TEST_SESSION.namespaces,
+        cosmos: {
+          accounts: ["cosmos:cosmoshub-4:cosmos1t2uflqwqe0fsj0shcfkrvpukewcw40yjj6hdc0"],
+          methods: ["cosmos_signDirect"],
+          events: [],
+        },
+      },
+    };
+    expect(
+      isSessionCompatible(session, {
+        requiredNamespaces: {
+          [TEST_ETHEREUM_NAMESPACE]: { chains: TEST_CHAINS, methods: TEST_METHODS, events: [] },
+        },
+      }),
+    ).to.be.true;
+  });
+  it("isSessionMatchingQuery", () => {
+    expect(isSessionMatchingQuery(TEST_SESSION, {})).to.be.true;
+    expect(
+      isSessionMatchingQuery(TEST_SESSION, {
+        peer: { url: TEST_SESSION.peer.metadata.url },
+        chain: TEST_ETHEREUM_CHAIN_A,
+        account: TEST_SESSION.namespaces[TEST_ETHEREUM_NAMESPACE].accounts[0],
+        method: TEST_METHODS[0],
+        event: TEST_EVENTS[0],
+        expiry: { from: TEST_SESSION.expiry, to: TEST_SESSION.expiry },
+        acknowledged: true,
+      }),
+    ).to.be.true;
+    expect(isSessionMatchingQuery(TEST_SESSION, { peer: { name: "Other App" } })).to.be.false;
+    expect(isSessionMatchingQuery(TEST_SESSION, { chain: "cosmos:cosmoshub-4" })).to.be.false;
+    expect(isSessionMatchingQuery(TEST_SESSION, { method: "eth_sign" })).to.be.false;
+    expect(isSessionMatchingQuery(TEST_SESSION, { expiry: { to: TEST_SESSION.expiry - 1 } })).to.be
+      .false;
+    expect(isSessionMatchingQuery(TEST_SESSION, { acknowledged: false })).to.be.false;
+  });
+  it("isValidRedirect", () => {
+    expect(isValidRedirect(undefined, true)).to.be.true;
+    expect(isValidRedirect(undefined, false)).to.be.false;
+    expect(isValidRedirect({ native: "myapp://" }, false)).to.be.true;
+    expect(isValidRedirect({ universal: "https://example.com/app" }, false)).to.be.true;
+    expect(isValidRedirect({}, false)).to.be.false;
+    expect(isValidRedirect({ native: "//myapp" }, false)).to.be.false;
+    expect(isValidRedirect({ native: "myapp://", universal: "example.com" }, false)).to.be.false;
+  });
 });